@@ -1,261 +1,353 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { AudioReactor, type AudioSource } from './audioReactor';
+import { DEFAULT_CONFIG, DEFAULT_TERMINUS, DEFAULT_WELL, MAX_NEBULA_CLOUDS, MAX_NEBULA_COLORS, MAX_PARTICLE_BUDGET, MAX_PATH_POINTS, PARTICLE_EMITTERS, MAX_STREAMS, MAX_TERMINUS_OBJECTS, MAX_WELLS, defaultStreamPath, type Config, type GravityWell, type NebulaSettings, type ParticleEmitter, type ParticleSettings, type PathPoint, type StreamConfig, type TerminusObject, type TerminusType, type WellMotion, type WellPolarity } from './config';
+import { BUILT_IN_PALETTES, DEFAULT_PALETTE, PALETTE_MODES, resolvePalette, uniquePaletteName, type Palette, type PaletteMode } from './palettes';
+import { randomSeed } from './random';
+import { CanvasRenderer, EASING_MODES, EFFECTS, FIXED_STEP, LAYOUTS, PATH_HANDLE_RADIUS, QUALITY_MODES, StarsilkEngine, WELL_HANDLE_RADIUS, createSceneHost, distanceToSegment, getEffect, getLayout, type EasingMode, type QualityMode, type SceneHost, type SceneStats } from './engine';
+import { POSTER_SIZES, downloadBlob, renderClip, type ClipFormat, type ClipOptions } from './exporter';
+import { readSceneFromUrl, writeSceneToUrl } from './deepLink';
+import { DISCRETE_TARGETS, NUMERIC_TARGETS, STREAM_TARGET_KEYS, clampKeyValue, effectTarget, readNumericTarget, streamTarget, timelinePosition, timelineTargetLabel, type DiscreteTarget, type Timeline, type TimelineTrack } from './timeline';
+import { MIN_DWELL, findPlaylistPreset, maxCrossfade, loadPlaylist, nextPlaylistIndex, storePlaylist, type Playlist, type PlaylistOrder } from './playlist';
+import { MAX_FRAME_BUDGET, MIN_FRAME_BUDGET, loadPerformance, storePerformance, type PerformanceSettings } from './performance';
+import { BUILT_IN_PRESETS, createPreset, exportPresetFile, importPresetFile, loadSavedPresets, storePresets, type PresetDocument } from './presets';
+
+// --- Scene Export ---
+// Offline clips restart the scene from its seed in a separate engine at the
+// export's aspect ratio and step exactly 1000 / fps ms of simulated time per frame.
+// Live input is not reproducible, so only the simulated pulse survives offline.
+const exportClip = (config: Config, viewHeight: number, options: ClipOptions, onProgress: (progress: number) => void): Promise<Blob> => {
+  const engine = new StarsilkEngine(config);
+  // Keep the on-screen height as the logical height so widths and sizes match the preview
+  const scale = options.height / viewHeight;
+  engine.resize(options.width / scale, viewHeight);
+
+  let pending = 0;
+  let renderer: CanvasRenderer | null = null; // kept across frames so the nebula layer stays cached
+
+  return renderClip(options, (ctx, index) => {
+    // Read per frame: the timeline may automate the time scale
+    if (index > 0) pending += (1000 / options.fps) * (engine.config.timeScale / 100);
+    const steps = Math.floor(pending / FIXED_STEP);
+    pending -= steps * FIXED_STEP;
+    engine.advance(steps);
+
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    renderer ??= new CanvasRenderer(ctx);
+    engine.render(renderer);
+  }, onProgress);
+};
 
-// --- Vector Utilities ---
-interface Vec2 {
-  x: number;
-  y: number;
-}
+const Starsilk: React.FC = () => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
 
-const normalize = (v: Vec2): Vec2 => {
-  const len = Math.hypot(v.x, v.y);
-  if (len === 0) return { x: 0, y: 0 };
-  return { x: v.x / len, y: v.y / len };
-};
+  // --- Configuration State ---
+  const [config, setConfig] = useState<Config>(() => readSceneFromUrl() ?? { ...DEFAULT_CONFIG, seed: randomSeed() });
+  const { seed, numStreams, startX, startY, endX, endY, layoutMode, effects, audioReactive, audioSource, audioDrift, audioWidth, audioLuminosity, audioBeatSurges, enableStars, starDensity, starLuminosity, starFlickerSpeed, starParallax, cameraDrift, shootingStars, nebula, enableSun, terminusObjects, silkLuminosity, silkSpeed, variableSpeed, timeScale, streamConfigs, palette, paletteMode, hueCycle, customPalettes, gravityWells, transitionDuration, transitionEasing, timeline, streamPaths, particles } = config;
 
-const getNormal = (v: Vec2): Vec2 => {
-  return { x: -v.y, y: v.x };
-};
+  const updateConfig = <K extends keyof Config>(key: K, value: Config[K]) => {
+    setConfig(prev => ({ ...prev, [key]: value }));
+  };
 
-// Catmull-Rom spline interpolation
-const catmullRom = (p0: Vec2, p1: Vec2, p2: Vec2, p3: Vec2, t: number): Vec2 => {
-  const t2 = t * t;
-  const t3 = t2 * t;
+  // Per-stream configurations
+  const [selectedStream, setSelectedStream] = useState<number>(-1);
 
-  const f0 = -0.5 * t3 + t2 - 0.5 * t;
-  const f1 = 1.5 * t3 - 2.5 * t2 + 1.0;
-  const f2 = -1.5 * t3 + 2.0 * t2 + 0.5 * t;
-  const f3 = 0.5 * t3 - 0.5 * t2;
+  const updateStreamConfig = (index: number, key: keyof StreamConfig, value: number) => {
+    setConfig(prev => {
+      const next = [...prev.streamConfigs];
+      next[index] = { ...next[index], [key]: value };
+      return { ...prev, streamConfigs: next };
+    });
+  };
 
-  return {
-    x: p0.x * f0 + p1.x * f1 + p2.x * f2 + p3.x * f3,
-    y: p0.y * f0 + p1.y * f1 + p2.y * f2 + p3.y * f3,
+  // --- Palettes ---
+  // Built-ins are read-only; editing starts from a custom copy stored in the Config
+  const customPalette = customPalettes.find(p => p.name === palette);
+
+  const duplicatePalette = () => {
+    const source = resolvePalette(palette, customPalettes);
+    const copy = { ...structuredClone(source), name: uniquePaletteName(`${source.name} Copy`, customPalettes) };
+    setConfig(prev => ({ ...prev, palette: copy.name, customPalettes: [...prev.customPalettes, copy] }));
   };
-};
 
-// --- Types & Interfaces ---
-type LayoutMode = 'default' | 'tree' | 'convergence' | 'dna' | 'river';
-type EffectMode = 'default' | 'vortex' | 'surges' | 'gravity' | 'particles';
-
-interface StreamConfig {
-  speed: number;
-  width: number;
-  luminosity: number;
-}
-
-interface Config {
-  numStreams: number;
-  startX: number;
-  startY: number;
-  endX: number;
-  endY: number;
-  layoutMode: LayoutMode;
-  effectMode: EffectMode;
-  audioReactive: boolean;
-  enableStars: boolean;
-  starDensity: number;
-  starLuminosity: number;
-  starFlickerSpeed: number;
-  enableSun: boolean;
-  silkLuminosity: number;
-  silkSpeed: number;
-  variableSpeed: boolean;
-  streamConfigs: StreamConfig[];
-}
-
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  maxLife: number;
-  size: number;
-  color: string;
-}
-
-class SilkNode {
-  x: number;
-  y: number;
-  ox: number;
-  oy: number;
-  vx: number = 0;
-  vy: number = 0;
-  phaseOffsetX: number;
-  phaseOffsetY: number;
-  streamIndex: number;
-
-  constructor(x: number, y: number, phaseOffsetX: number, phaseOffsetY: number, streamIndex: number) {
-    this.x = x;
-    this.y = y;
-    this.ox = x;
-    this.oy = y;
-    this.phaseOffsetX = phaseOffsetX;
-    this.phaseOffsetY = phaseOffsetY;
-    this.streamIndex = streamIndex;
-  }
-
-  update(time: number, index: number, mouseX: number, mouseY: number, config: Config, audioSim: number) {
-    let driftX = 0;
-    let driftY = 0;
-
-    const audioBump = config.audioReactive ? audioSim * 20 : 0;
-
-    if (config.layoutMode === 'dna') {
-      // DNA Spiral - rigorous sine wave wrapping
-      const dnaPhase = (index * 0.2) - (time * 0.002);
-      const isStrandA = this.streamIndex % 2 === 0;
-      const amplitude = 60 + audioBump;
-      driftX = Math.cos(dnaPhase + (isStrandA ? 0 : Math.PI)) * amplitude;
-      driftY = Math.sin(dnaPhase + (isStrandA ? 0 : Math.PI)) * amplitude;
-    } else if (config.layoutMode === 'river') {
-      // River Styx - Very flat, slow undulating drift
-      driftX = Math.sin(time * 0.0002 + index * 0.05 + this.phaseOffsetX) * 20;
-      driftY = Math.cos(time * 0.0003 + index * 0.05 + this.phaseOffsetY) * 30 + audioBump;
-    } else {
-      // Default / Tree / Convergence floaty drift
-      driftX = Math.sin(time * 0.0005 + index * 0.1 + this.phaseOffsetX) * (80 + audioBump) + Math.cos(time * 0.0002 - index * 0.05 + this.phaseOffsetY) * 40;
-      driftY = Math.cos(time * 0.0007 + index * 0.15 + this.phaseOffsetY) * (120 + audioBump) + Math.sin(time * 0.0003 + index * 0.08 + this.phaseOffsetX) * 60;
-    }
+  const updateCustomPalette = (update: (palette: Palette) => Palette) => {
+    setConfig(prev => ({ ...prev, customPalettes: prev.customPalettes.map(p => p.name === prev.palette ? update(p) : p) }));
+  };
 
-    let targetX = this.ox + driftX;
-    let targetY = this.oy + driftY;
-
-    // Gravity Wells effect
-    if (config.effectMode === 'gravity') {
-      // Create two invisible gravity wells
-      const wells = [
-        { x: window.innerWidth * 0.3, y: window.innerHeight * 0.7, mass: 60000 },
-        { x: window.innerWidth * 0.7, y: window.innerHeight * 0.3, mass: 60000 }
-      ];
-
-      wells.forEach(well => {
-        const dx = well.x - this.x;
-        const dy = well.y - this.y;
-        const distSq = dx * dx + dy * dy;
-        if (distSq > 1000) {
-          const force = well.mass / distSq;
-          targetX += (dx / Math.sqrt(distSq)) * force;
-          targetY += (dy / Math.sqrt(distSq)) * force;
-        }
-      });
-    }
+  const updatePaletteColor = (key: 'stars' | 'nebula' | 'sun', index: number, value: string) => {
+    updateCustomPalette(p => ({ ...p, [key]: p[key].map((color, i) => i === index ? value : color) }));
+  };
 
-    // Spring towards target
-    this.vx += (targetX - this.x) * (config.layoutMode === 'river' ? 0.005 : 0.02);
-    this.vy += (targetY - this.y) * (config.layoutMode === 'river' ? 0.005 : 0.02);
-
-    // Mouse interaction
-    const dx = this.x - mouseX;
-    const dy = this.y - mouseY;
-    const dist = Math.hypot(dx, dy);
-
-    if (config.effectMode === 'vortex') {
-      // Vortex pulls towards mouse
-      if (dist < 400 && dist > 10) {
-        const force = 1000 / dist;
-        this.vx -= (dx / dist) * force * 0.05;
-        this.vy -= (dy / dist) * force * 0.05;
-
-        // Add swirl
-        this.vx += (dy / dist) * force * 0.05;
-        this.vy -= (dx / dist) * force * 0.05;
-      }
-    } else {
-      // Standard repulsion
-      const minDist = 200;
-      if (dist < minDist && dist > 0) {
-        const force = Math.pow((minDist - dist) / minDist, 2);
-        this.vx += (dx / dist) * force * 1.5;
-        this.vy += (dy / dist) * force * 1.5;
-      }
-    }
+  const deleteCustomPalette = () => {
+    setConfig(prev => ({ ...prev, palette: DEFAULT_PALETTE.name, customPalettes: prev.customPalettes.filter(p => p.name !== prev.palette) }));
+  };
 
-    // Apply velocity and dampening
-    this.x += this.vx;
-    this.y += this.vy;
-    this.vx *= 0.90;
-    this.vy *= 0.90;
-  }
-}
-
-interface SilkStream {
-  nodes: SilkNode[];
-  colorPhase: number;
-  surgeTime: number;
-  speedMultiplier: number;
-  localTime: number;
-}
-
-interface Star {
-  x: number;
-  y: number;
-  z: number; // depth layer (1 to 3)
-  phase: number;
-}
+  // --- Presets ---
+  const [savedPresets, setSavedPresets] = useState<PresetDocument[]>(loadSavedPresets);
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const presetFileRef = useRef<HTMLInputElement>(null);
+
+  const applyPreset = (preset: PresetDocument) => {
+    setConfig(structuredClone(preset.config));
+    setSelectedStream(-1);
+    setPresetName(preset.name);
+    setPresetError(null);
+  };
 
-const Starsilk: React.FC = () => {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const saveCurrentPreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const next = [...savedPresets.filter(p => p.name !== name), createPreset(name, config)];
+    setSavedPresets(next);
+    storePresets(next);
+  };
 
-  // --- Configuration State ---
-  const [numStreams, setNumStreams] = useState(3);
-  const [startX, setStartX] = useState(-10);
-  const [startY, setStartY] = useState(50);
-  const [endX, setEndX] = useState(110);
-  const [endY, setEndY] = useState(50);
-
-  const [layoutMode, setLayoutMode] = useState<LayoutMode>('default');
-  const [effectMode, setEffectMode] = useState<EffectMode>('default');
-  const [audioReactive, setAudioReactive] = useState(false);
-
-  const [enableStars, setEnableStars] = useState(true);
-  const [starDensity, setStarDensity] = useState(50);
-  const [starLuminosity, setStarLuminosity] = useState(50);
-  const [starFlickerSpeed, setStarFlickerSpeed] = useState(50);
-  const [enableSun, setEnableSun] = useState(true);
-  const [silkLuminosity, setSilkLuminosity] = useState(100);
-  const [silkSpeed, setSilkSpeed] = useState(50);
-  const [variableSpeed, setVariableSpeed] = useState(false);
+  const deleteSavedPreset = () => {
+    const next = savedPresets.filter(p => p.name !== presetName.trim());
+    setSavedPresets(next);
+    storePresets(next);
+  };
 
-  // Per-stream configurations
-  const [streamConfigs, setStreamConfigs] = useState<StreamConfig[]>(
-    Array.from({ length: 15 }, () => ({ speed: 100, width: 100, luminosity: 100 }))
-  );
-  const [selectedStream, setSelectedStream] = useState<number>(-1);
+  const handlePresetImport = (file: File) => {
+    importPresetFile(file)
+      .then(applyPreset)
+      .catch(err => setPresetError(err.message));
+  };
 
-  const updateStreamConfig = (index: number, key: keyof StreamConfig, value: number) => {
-    setStreamConfigs(prev => {
-      const next = [...prev];
-      next[index] = { ...next[index], [key]: value };
-      return next;
-    });
+  // --- Scene Links ---
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Debounced so dragging a slider rewrites the hash once it settles
+  useEffect(() => {
+    const timeout = setTimeout(() => writeSceneToUrl(config), 250);
+    return () => clearTimeout(timeout);
+  }, [config]);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const linked = readSceneFromUrl();
+      if (!linked) return;
+      setConfig(linked);
+      setSelectedStream(-1);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const copySceneLink = () => {
+    writeSceneToUrl(config);
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      })
+      .catch(err => console.error(`Error copying scene link: ${err.message}`));
+  };
+
+  // --- Scene ---
+  // Exists while the canvas is mounted and may live in a worker, so everything goes through the host
+  const sceneRef = useRef<SceneHost | null>(null);
+  const configRef = useRef(config);
+
+  useEffect(() => {
+    configRef.current = config;
+    sceneRef.current?.setConfig(config);
+  }, [config]);
+
+  // --- Simulation Clock ---
+  const [paused, setPaused] = useState(false);
+
+  const togglePause = () => {
+    if (paused) sceneRef.current?.resume();
+    else sceneRef.current?.pause();
+    setPaused(!paused);
+  };
+
+  // --- Offline Export ---
+  const [clipOptions, setClipOptions] = useState<ClipOptions>({ width: 1920, height: 1080, fps: 30, duration: 10, format: 'webm' });
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const updateClipOption = <K extends keyof ClipOptions>(key: K, value: ClipOptions[K]) => {
+    setClipOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const startClipExport = () => {
+    if (exportProgress !== null) return;
+    setExportError(null);
+    setExportProgress(0);
+    exportClip(config, window.innerHeight, clipOptions, setExportProgress)
+      .then(blob => downloadBlob(blob, `starsilk-${seed}.${clipOptions.format === 'webm' ? 'webm' : 'zip'}`))
+      .catch(err => {
+        console.error(`Error exporting clip: ${err.message}`);
+        setExportError(err.message);
+      })
+      .finally(() => setExportProgress(null));
+  };
+
+  const [posterSize, setPosterSize] = useState({ width: 7680, height: 4320 });
+  const [posterRendering, setPosterRendering] = useState(false);
+
+  const startPosterExport = () => {
+    const scene = sceneRef.current;
+    if (!scene || posterRendering) return;
+    setExportError(null);
+    setPosterRendering(true);
+    scene.exportPoster(posterSize.width, posterSize.height)
+      .then(blob => downloadBlob(blob, `starsilk-${seed}-${posterSize.width}x${posterSize.height}.png`))
+      .catch(err => {
+        console.error(`Error rendering poster: ${err.message}`);
+        setExportError(err.message);
+      })
+      .finally(() => setPosterRendering(false));
+  };
+
+  const startSvgExport = () => {
+    sceneRef.current?.exportSvg()
+      .then(svg => downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `starsilk-${seed}.svg`))
+      .catch(err => {
+        console.error(`Error exporting SVG: ${err.message}`);
+        setExportError(err.message);
+      });
   };
 
   const [menuVisible, setMenuVisible] = useState(true);
-  const hideTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const hideTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // --- Audio Input ---
+  const [audioReactor] = useState(() => new AudioReactor());
+  const audioElementRef = useRef<HTMLAudioElement>(null);
+  const audioUrlRef = useRef<string | null>(null);
+  const [audioFileName, setAudioFileName] = useState<string | null>(null);
+  const [audioError, setAudioError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!audioReactive || audioSource === 'simulated') return;
+    let cancelled = false;
+
+    if (audioSource === 'microphone') {
+      audioReactor.connectMicrophone()
+        .then(() => { if (cancelled) audioReactor.disconnect(); })
+        .catch(err => {
+          console.error(`Error attempting to open microphone: ${err.message}`);
+          if (!cancelled) setAudioError('Microphone unavailable');
+        });
+    } else if (audioSource === 'file' && audioElementRef.current) {
+      audioReactor.connectElement(audioElementRef.current);
+    }
+
+    // Levels are sampled next to the audio graph and handed to the scene, wherever it runs
+    let frameId: number;
+    const sampleAudio = (now: number) => {
+      sceneRef.current?.setAudioInput(audioReactor.sample(now));
+      frameId = requestAnimationFrame(sampleAudio);
+    };
+    frameId = requestAnimationFrame(sampleAudio);
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frameId);
+      audioReactor.disconnect();
+      setAudioError(null);
+    };
+  }, [audioReactive, audioSource, audioReactor]);
+
+  const loadAudioFile = (file: File) => {
+    const element = audioElementRef.current;
+    if (!element || !file.type.startsWith('audio/')) return;
+    if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+    audioUrlRef.current = URL.createObjectURL(file);
+    element.src = audioUrlRef.current;
+    element.play().catch(() => { /* controls remain available for manual start */ });
+    setAudioFileName(file.name);
+    updateConfig('audioSource', 'file');
+    updateConfig('audioReactive', true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (file) loadAudioFile(file);
+  };
+
+  // --- Ambient Mode ---
+  // Unattended playback for screensavers and lobby displays: the panel is gone
+  // and the scene crossfades through the playlist until fullscreen is left or Escape pressed
+  const [playlist, setPlaylist] = useState<Playlist>(loadPlaylist);
+  const [playlistPick, setPlaylistPick] = useState(BUILT_IN_PRESETS[0].name);
+  const [ambientIndex, setAmbientIndex] = useState<number | null>(null); // playlist entry on screen
+  const ambient = ambientIndex !== null;
+
+  // Shortening a dwell shortens the crossfade with it
+  const updatePlaylist = (next: Playlist) => {
+    const clamped = { ...next, crossfade: Math.min(next.crossfade, maxCrossfade(next.entries)) };
+    setPlaylist(clamped);
+    storePlaylist(clamped);
+  };
 
-  const configRef = useRef<any>(null);
-  configRef.current = { numStreams, startX, startY, endX, endY, layoutMode, effectMode, audioReactive, enableStars, starDensity, starLuminosity, starFlickerSpeed, enableSun, silkLuminosity, silkSpeed, variableSpeed, streamConfigs };
+  const updatePlaylistEntry = (index: number, dwell: number) => {
+    updatePlaylist({ ...playlist, entries: playlist.entries.map((entry, i) => i === index ? { ...entry, dwell } : entry) });
+  };
 
-  const initNodesRef = useRef<() => void>();
-  const initStarsRef = useRef<() => void>();
+  const showPlaylistEntry = useCallback((index: number) => {
+    const entry = playlist.entries[index];
+    const preset = entry && findPlaylistPreset(entry.preset, savedPresets);
+    if (preset) {
+      sceneRef.current?.crossfadeTo(preset.config, playlist.crossfade);
+      setConfig(structuredClone(preset.config));
+      setSelectedStream(-1);
+    }
+    setAmbientIndex(index);
+  }, [playlist, savedPresets]);
 
-  // Add debouncing to avoid excessive reinits
+  // Entries whose preset has been deleted are passed over immediately
   useEffect(() => {
-    if (initNodesRef.current) initNodesRef.current();
-  }, [numStreams, startX, startY, endX, endY, layoutMode]);
+    if (ambientIndex === null) return;
+    const entry = playlist.entries[ambientIndex];
+    const dwell = entry && findPlaylistPreset(entry.preset, savedPresets) ? entry.dwell * 1000 : 0;
+    const timeout = setTimeout(() => showPlaylistEntry(nextPlaylistIndex(playlist, ambientIndex)), dwell);
+    return () => clearTimeout(timeout);
+  }, [ambientIndex, playlist, savedPresets, showPlaylistEntry]);
 
   useEffect(() => {
-    if (initStarsRef.current) initStarsRef.current();
-  }, [starDensity]);
+    if (!ambient) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setAmbientIndex(null);
+    };
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) setAmbientIndex(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+  }, [ambient]);
+
+  const playablePlaylist = playlist.entries.some(entry => findPlaylistPreset(entry.preset, savedPresets));
 
-  const handleMouseMove = useCallback(() => {
+  const startAmbientMode = () => {
+    if (!playablePlaylist) return;
+    const first = playlist.order === 'shuffle' ? Math.floor(Math.random() * playlist.entries.length) : 0;
+    showPlaylistEntry(first);
+    setMenuVisible(false);
+    if (!document.fullscreenElement) {
+      containerRef.current?.requestFullscreen().catch(err => {
+        console.error(`Error attempting to enable fullscreen: ${err.message}`);
+      });
+    }
+  };
+
+  const handleContainerPointerMove = useCallback(() => {
+    if (ambient) return;
     setMenuVisible(true);
     if (hideTimeoutRef.current) clearTimeout(hideTimeoutRef.current);
     hideTimeoutRef.current = setTimeout(() => {
       setMenuVisible(false);
     }, 3000);
-  }, []);
+  }, [ambient]);
 
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
@@ -268,401 +360,361 @@ const Starsilk: React.FC = () => {
   };
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d', { alpha: false });
-    if (!ctx) return;
-
-    let animationFrameId: number;
-    let width = 0;
-    let height = 0;
-    let time = 0;
-    let audioSimOffset = 0;
-
-    let mouseX = -1000;
-    let mouseY = -1000;
-
-    const numNodesPerStream = 40;
-    let streams: SilkStream[] = [];
-    let stars: Star[] = [];
-    let particles: Particle[] = [];
-
-    const handleCanvasMouseMove = (e: MouseEvent) => {
-      const rect = canvas.getBoundingClientRect();
-      const dpr = window.devicePixelRatio || 1;
-      mouseX = (e.clientX - rect.left);
-      mouseY = (e.clientY - rect.top);
-    };
-
-    const handleMouseLeave = () => {
-      mouseX = -1000;
-      mouseY = -1000;
-    };
-
-    canvas.addEventListener('mousemove', handleCanvasMouseMove);
-    canvas.addEventListener('mouseleave', handleMouseLeave);
-
-    const initStars = () => {
-      stars = [];
-      const density = configRef.current.starDensity;
-      const count = Math.floor((width * height) / (20000 / (density + 1)));
-      for (let i = 0; i < count; i++) {
-        stars.push({
-          x: Math.random() * width,
-          y: Math.random() * height,
-          z: Math.random() > 0.8 ? 3 : (Math.random() > 0.5 ? 2 : 1),
-          phase: Math.random() * Math.PI * 2
-        });
-      }
+    const stage = stageRef.current;
+    if (!stage) return;
+
+    // A fresh canvas per mount: once handed to a worker it can never be drawn from here again.
+    // The scene host may swap it out, so input is taken from the stage around it
+    const canvas = document.createElement('canvas');
+    canvas.style.display = 'block';
+    canvas.style.width = '100%';
+    canvas.style.height = '100%';
+    stage.appendChild(canvas);
+
+    const scene = createSceneHost(canvas, configRef.current);
+    sceneRef.current = scene;
+
+    // Each pointer pushes the silk on its own. Mice report no pressure while
+    // hovering and touch screens without sensing report 0.5, so both count as 1
+    const pointerPressure = (e: PointerEvent) => e.pointerType === 'mouse' ? 1 : (e.pressure || 0.5) * 2;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const rect = stage.getBoundingClientRect();
+      scene.setPointer(e.pointerId, e.clientX - rect.left, e.clientY - rect.top, pointerPressure(e));
     };
-    initStarsRef.current = initStars;
-
-    const initNodes = () => {
-      streams = [];
-      const cfg = configRef.current;
-      const sx = (cfg.startX / 100) * width;
-      const sy = (cfg.startY / 100) * height;
-      let ex = (cfg.endX / 100) * width;
-      let ey = (cfg.endY / 100) * height;
-
-      if (cfg.layoutMode === 'convergence') {
-        ex = width / 2;
-        ey = height / 2;
-      } else if (cfg.effectMode === 'vortex' && mouseX > 0) {
-        // Vortex might override end if desired, but we handle it in physics
-      }
 
-      const streamCount = cfg.numStreams;
-
-      for (let s = 0; s < streamCount; s++) {
-        const nodes: SilkNode[] = [];
-        const phaseOffsetX = (s / streamCount) * Math.PI * 4;
-        const phaseOffsetY = (s / streamCount) * Math.PI * 2 + 1;
-        const colorPhase = s * 0.3;
-        const surgeTime = Math.random() * 10000;
-
-        let localSx = sx;
-        let localSy = sy;
-
-        if (cfg.layoutMode === 'tree') {
-          localSx = width / 2;
-          localSy = height * 1.1; // Bottom center
-          ex = (s / Math.max(1, streamCount - 1)) * width;
-          ey = height * -0.1; // Top edge spread
-        } else if (cfg.layoutMode === 'convergence') {
-          // Origins circle around the edge
-          const angle = (s / streamCount) * Math.PI * 2;
-          localSx = width / 2 + Math.cos(angle) * width * 0.6;
-          localSy = height / 2 + Math.sin(angle) * height * 0.6;
-        }
-
-        const dx = ex - localSx;
-        const dy = ey - localSy;
-        const streamTangent = normalize({ x: dx, y: dy });
-        const streamNormal = getNormal(streamTangent);
-
-        let perpOffset = (s - Math.floor(streamCount / 2)) * 30; // 30px spacing
-        if (cfg.layoutMode === 'river') {
-          perpOffset = (s - Math.floor(streamCount / 2)) * 10; // Tight spacing
-        } else if (cfg.layoutMode === 'dna') {
-          perpOffset = 0; // DNA twists around exact center
-        }
-
-        for (let i = 0; i < numNodesPerStream; i++) {
-          const t = i / (numNodesPerStream - 1);
-          const x = localSx + t * dx + streamNormal.x * perpOffset;
-          const y = localSy + t * dy + streamNormal.y * perpOffset;
-
-          nodes.push(new SilkNode(x, y, phaseOffsetX, phaseOffsetY, s));
-        }
-        streams.push({
-          nodes,
-          colorPhase,
-          surgeTime,
-          speedMultiplier: 0.5 + Math.random() * 1.5, // 0.5x to 2.0x
-          localTime: Math.random() * 10000
-        });
-      }
+    const handlePointerEnd = (e: PointerEvent) => {
+      // A mouse keeps acting while it hovers after a click; fingers and pens lift away
+      if (e.type === 'pointerup' && e.pointerType === 'mouse') return;
+      scene.clearPointer(e.pointerId);
     };
-    initNodesRef.current = initNodes;
 
-    const resize = () => {
-      width = window.innerWidth;
-      height = window.innerHeight;
+    // Without this the browser claims touches for scrolling and pinch-zoom
+    stage.style.touchAction = 'none';
+    stage.addEventListener('pointerdown', handlePointerMove);
+    stage.addEventListener('pointermove', handlePointerMove);
+    stage.addEventListener('pointerup', handlePointerEnd);
+    stage.addEventListener('pointercancel', handlePointerEnd);
+    stage.addEventListener('pointerleave', handlePointerEnd);
 
-      const dpr = window.devicePixelRatio || 1;
-      canvas.width = width * dpr;
-      canvas.height = height * dpr;
-      ctx.scale(dpr, dpr);
-      canvas.style.width = `${width}px`;
-      canvas.style.height = `${height}px`;
+    // Pointers that were down when the window lost focus never report lifting
+    const handleBlur = () => scene.clearPointers();
+    window.addEventListener('blur', handleBlur);
 
-      initStars();
-      initNodes();
-    };
+    const resize = () => scene.resize(window.innerWidth, window.innerHeight, window.devicePixelRatio || 1);
 
     window.addEventListener('resize', resize);
     resize();
 
-    const spawnParticles = (x: number, y: number, colorStr: string) => {
-      for (let i = 0; i < 3; i++) {
-        particles.push({
-          x, y,
-          vx: (Math.random() - 0.5) * 4,
-          vy: (Math.random() - 0.5) * 4,
-          life: 0,
-          maxLife: 30 + Math.random() * 40,
-          size: 1 + Math.random() * 2,
-          color: colorStr
-        });
-      }
+    return () => {
+      window.removeEventListener('resize', resize);
+      window.removeEventListener('blur', handleBlur);
+      stage.removeEventListener('pointerdown', handlePointerMove);
+      stage.removeEventListener('pointermove', handlePointerMove);
+      stage.removeEventListener('pointerup', handlePointerEnd);
+      stage.removeEventListener('pointercancel', handlePointerEnd);
+      stage.removeEventListener('pointerleave', handlePointerEnd);
+      scene.dispose();
+      sceneRef.current = null;
+      canvas.remove();
     };
+  }, []);
 
-    const render = () => {
-      time += 16; // approx 60fps delta
-      const cfg = configRef.current;
-
-      // Draw background (no trails for background itself to prevent smearing stars badly, so we clear, draw stars, then dim overlay)
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.fillStyle = '#050508';
-      ctx.fillRect(0, 0, width, height);
-
-      // Distant Nebulas
-      if (cfg.enableStars) {
-        ctx.globalCompositeOperation = 'lighter';
-        const nebulaGrad1 = ctx.createRadialGradient(width * 0.3, height * 0.3, 0, width * 0.3, height * 0.3, width * 0.6);
-        nebulaGrad1.addColorStop(0, 'rgba(20, 10, 50, 0.4)');
-        nebulaGrad1.addColorStop(1, 'rgba(0,0,0,0)');
-        ctx.fillStyle = nebulaGrad1;
-        ctx.fillRect(0, 0, width, height);
-
-        const nebulaGrad2 = ctx.createRadialGradient(width * 0.8, height * 0.7, 0, width * 0.8, height * 0.7, width * 0.5);
-        nebulaGrad2.addColorStop(0, 'rgba(10, 40, 60, 0.3)');
-        nebulaGrad2.addColorStop(1, 'rgba(0,0,0,0)');
-        ctx.fillStyle = nebulaGrad2;
-        ctx.fillRect(0, 0, width, height);
-
-        // Starfield
-        const lumMultiplier = cfg.starLuminosity / 50;
-        const flickerSpd = cfg.starFlickerSpeed * 0.0001;
-
-        stars.forEach(star => {
-          star.phase += flickerSpd * star.z;
-          const flicker = Math.sin(star.phase) * 0.5 + 0.5;
-          const alpha = (0.2 + flicker * 0.8) * lumMultiplier * (star.z / 3);
-
-          if (star.z === 3 && flicker > 0.9) {
-            ctx.fillStyle = `rgba(200, 230, 255, ${alpha})`;
-            ctx.fillRect(star.x - 1, star.y - 1, 3, 3);
-          } else {
-            ctx.fillStyle = `rgba(180, 200, 255, ${alpha})`;
-            ctx.fillRect(star.x, star.y, star.z === 3 ? 2 : 1, star.z === 3 ? 2 : 1);
-          }
-        });
-      }
+  // --- Performance ---
+  // Quality is a property of this device, so it is stored apart from the scene
+  const [performanceSettings, setPerformanceSettings] = useState<PerformanceSettings>(loadPerformance);
+  const [stats, setStats] = useState<SceneStats | null>(null);
+  const { quality, frameBudget, showHud } = performanceSettings;
+
+  const updatePerformance = <K extends keyof PerformanceSettings>(key: K, value: PerformanceSettings[K]) => {
+    const next = { ...performanceSettings, [key]: value };
+    setPerformanceSettings(next);
+    storePerformance(next);
+  };
+
+  // Declared after the scene is created so the first run reaches it
+  useEffect(() => {
+    sceneRef.current?.setQuality(quality, frameBudget);
+  }, [quality, frameBudget]);
+
+  useEffect(() => {
+    if (!showHud) return;
+    const interval = setInterval(() => {
+      sceneRef.current?.getStats()
+        .then(setStats)
+        .catch(err => console.error(`Error reading scene stats: ${err.message}`));
+    }, 500);
+    return () => clearInterval(interval);
+  }, [showHud]);
+
+  // --- Interaction Effects ---
+  // Any number of effects run together, each with its own strength
+  const updateEffectStrength = (id: string, strength: number) => {
+    setConfig(prev => ({ ...prev, effects: prev.effects.map(e => e.id === id ? { ...e, strength } : e) }));
+  };
 
-      // Restore dimming for trails
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.fillStyle = 'rgba(5, 5, 8, 0.5)'; // Heavier dim to create motion blur trails over stars
-      ctx.fillRect(0, 0, width, height);
+  const addEffect = (id: string) => {
+    setConfig(prev => prev.effects.some(e => e.id === id) ? prev : { ...prev, effects: [...prev.effects, { id, strength: 100 }] });
+  };
 
-      // Additive Blending for glow
-      ctx.globalCompositeOperation = 'lighter';
+  const removeEffect = (id: string) => {
+    setConfig(prev => ({ ...prev, effects: prev.effects.filter(e => e.id !== id) }));
+  };
 
-      // Sun/Star Target Object
-      if (cfg.enableSun) {
-        let ex = (cfg.endX / 100) * width;
-        let ey = (cfg.endY / 100) * height;
-        if (cfg.layoutMode === 'convergence') { ex = width / 2; ey = height / 2; }
-        else if (cfg.layoutMode === 'tree') { ex = width / 2; ey = -100; } // out of view mostly
+  const gravityEnabled = effects.some(e => e.id === 'gravity');
+  const particlesEnabled = effects.some(e => e.id === 'particles');
 
-        const sunPulse = Math.sin(time * 0.002) * 10;
-        const sunRadius = 40 + sunPulse;
+  // --- Particles ---
+  const updateParticles = <K extends keyof ParticleSettings>(key: K, value: ParticleSettings[K]) => {
+    setConfig(prev => ({ ...prev, particles: { ...prev.particles, [key]: value } }));
+  };
 
-        const sunGrad = ctx.createRadialGradient(ex, ey, 0, ex, ey, sunRadius * 3);
-        sunGrad.addColorStop(0, 'rgba(255, 255, 255, 1)');
-        sunGrad.addColorStop(0.1, 'rgba(150, 220, 255, 0.8)');
-        sunGrad.addColorStop(0.4, 'rgba(20, 100, 255, 0.3)');
-        sunGrad.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  const updateEmitter = (emitter: ParticleEmitter, rate: number) => {
+    setConfig(prev => ({ ...prev, particles: { ...prev.particles, emitters: { ...prev.particles.emitters, [emitter]: rate } } }));
+  };
 
-        ctx.fillStyle = sunGrad;
-        ctx.fillRect(ex - sunRadius * 3, ey - sunRadius * 3, sunRadius * 6, sunRadius * 6);
-      }
+  // --- Nebula ---
+  const updateNebula = <K extends keyof NebulaSettings>(key: K, value: NebulaSettings[K]) => {
+    setConfig(prev => ({ ...prev, nebula: { ...prev.nebula, [key]: value } }));
+  };
 
-      // Audio Sim
-      if (cfg.audioReactive) {
-        audioSimOffset = Math.sin(time * 0.01) * Math.sin(time * 0.003) * 0.5 + 0.5;
-      } else {
-        audioSimOffset = 0;
-      }
+  const updateNebulaColor = (index: number, value: string) => {
+    updateNebula('colors', nebula.colors.map((color, i) => i === index ? value : color));
+  };
 
-      // Global increment based on slider
-      const globalSpeedFactor = cfg.silkSpeed / 50;
-
-      // Render Streams
-      streams.forEach((stream, sIdx) => {
-        const streamCfg = cfg.streamConfigs[sIdx] || { speed: 100, width: 100, luminosity: 100 };
-        const strandMultiplier = cfg.variableSpeed ? stream.speedMultiplier : 1.0;
-        const userSpeedMultiplier = streamCfg.speed / 100;
-        stream.localTime += 16 * globalSpeedFactor * strandMultiplier * userSpeedMultiplier;
-        const sTime = stream.localTime;
-
-        stream.nodes.forEach((node, i) => node.update(sTime, i, mouseX, mouseY, cfg, audioSimOffset));
-
-        const points: Vec2[] = [];
-        const segmentsPerNode = 10;
-        for (let i = 0; i < stream.nodes.length - 1; i++) {
-          const p0 = stream.nodes[Math.max(0, i - 1)];
-          const p1 = stream.nodes[i];
-          const p2 = stream.nodes[i + 1];
-          const p3 = stream.nodes[Math.min(stream.nodes.length - 1, i + 2)];
-
-          for (let j = 0; j < segmentsPerNode; j++) {
-            const t = j / segmentsPerNode;
-            points.push(catmullRom(p0, p1, p2, p3, t));
-          }
-        }
-        points.push(stream.nodes[stream.nodes.length - 1]);
-
-        // Handle Surges
-        let isSurging = false;
-        if (cfg.effectMode === 'surges') {
-          if (sTime > stream.surgeTime) {
-            isSurging = true;
-            if (sTime > stream.surgeTime + 800) {
-              stream.surgeTime = sTime + 2000 + Math.random() * 8000;
-            }
-          }
-        }
-
-        for (let i = 0; i < points.length; i++) {
-          const p = points[i];
-          const nextP = points[i + 1 < points.length ? i + 1 : i];
-          const prevP = points[i > 0 ? i - 1 : i];
-
-          const tangent = normalize({ x: nextP.x - prevP.x, y: nextP.y - prevP.y });
-          const normal = getNormal(tangent);
-
-          const progress = i / points.length;
-
-          let driftSpeed = sTime * (cfg.layoutMode === 'river' ? 0.001 : 0.005);
-          if (isSurging) driftSpeed *= 3; // Surge speeds up the data flow
-
-          let finalWidth = 45 - (streams.length * 2);
-          if (cfg.layoutMode === 'river') finalWidth = 80;
-          if (finalWidth < 10) finalWidth = 10;
-
-          const twist = Math.sin(progress * Math.PI * 6 - sTime * 0.001 + stream.colorPhase);
-          finalWidth = finalWidth * (0.85 + 0.15 * Math.abs(twist));
-
-          // User-configured manual width multiplier per-strand
-          const userWidthMultiplier = streamCfg.width / 100;
-          finalWidth *= userWidthMultiplier;
-
-          // Optional DNA widening
-          if (cfg.layoutMode === 'dna') finalWidth = 20;
-
-          const pLeft = { x: p.x + normal.x * finalWidth, y: p.y + normal.y * finalWidth };
-          const pRight = { x: p.x - normal.x * finalWidth, y: p.y - normal.y * finalWidth };
-
-          // Opacity factoring
-          let baseAlphaFactor = 1 / Math.max(1, Math.sqrt(streams.length));
-          if (cfg.layoutMode === 'river') baseAlphaFactor = 0.5;
-
-          // Allow user to manually overdrive luminosity
-          baseAlphaFactor *= (cfg.silkLuminosity / 100);
-
-          // Hand-tuned variable luminosity per strand
-          const userLumMultiplier = streamCfg.luminosity / 100;
-          baseAlphaFactor *= userLumMultiplier;
-
-          ctx.beginPath();
-          ctx.moveTo(pLeft.x, pLeft.y);
-          ctx.lineTo(pRight.x, pRight.y);
-          ctx.strokeStyle = `rgba(10, 30, 180, ${(isSurging ? 0.6 : 0.25) * baseAlphaFactor})`;
-          ctx.lineWidth = cfg.layoutMode === 'river' ? 6 : 3.5;
-          ctx.stroke();
-
-          const streamOffset = stream.colorPhase * 100;
-          const barcodeNoise = Math.sin(progress * 1200 - driftSpeed * 2 + streamOffset) + Math.sin(progress * 2500 - driftSpeed * 4 + streamOffset) * 0.5;
-
-          if (barcodeNoise < -0.6 && !isSurging) continue;
-
-          const sliceNoise = Math.sin(progress * 1500 - driftSpeed * 3 + streamOffset * 2) + Math.cos(progress * 2800 - driftSpeed * 5);
-
-          if (sliceNoise > 0.0 || isSurging) {
-            const coreWidth = finalWidth * 0.92;
-            const coreLeft = { x: p.x + normal.x * coreWidth, y: p.y + normal.y * coreWidth };
-            const coreRight = { x: p.x - normal.x * coreWidth, y: p.y - normal.y * coreWidth };
-
-            const lineIntensity = isSurging ? 1.0 : Math.random();
-
-            if (lineIntensity > 0.8) {
-              ctx.beginPath();
-              ctx.moveTo(coreLeft.x, coreLeft.y);
-              ctx.lineTo(coreRight.x, coreRight.y);
-              ctx.strokeStyle = `rgba(220, 245, 255, ${0.9 * baseAlphaFactor})`;
-              ctx.lineWidth = 1;
-              ctx.stroke();
-
-              // Disintegration particles at the terminus
-              if (cfg.effectMode === 'particles' && progress > 0.98 && Math.random() > 0.6) {
-                spawnParticles(p.x, p.y, 'rgba(200, 240, 255, 0.8)');
-              }
-            } else if (lineIntensity > 0.3) {
-              ctx.beginPath();
-              ctx.moveTo(coreLeft.x, coreLeft.y);
-              ctx.lineTo(coreRight.x, coreRight.y);
-              ctx.strokeStyle = `rgba(0, 180, 255, ${0.5 * baseAlphaFactor})`;
-              ctx.lineWidth = 1.5;
-              ctx.stroke();
-            }
-          }
-        }
-      });
+  // --- Terminus Objects ---
+  const updateTerminus = <K extends keyof TerminusObject>(index: number, key: K, value: TerminusObject[K]) => {
+    setConfig(prev => ({ ...prev, terminusObjects: prev.terminusObjects.map((object, i) => i === index ? { ...object, [key]: value } : object) }));
+  };
+
+  const toggleTerminusStream = (index: number, stream: number) => {
+    const { streams } = terminusObjects[index];
+    updateTerminus(index, 'streams', streams.includes(stream) ? streams.filter(s => s !== stream) : [...streams, stream].sort((a, b) => a - b));
+  };
+
+  const addTerminus = () => {
+    setConfig(prev => prev.terminusObjects.length >= MAX_TERMINUS_OBJECTS ? prev : { ...prev, terminusObjects: [...prev.terminusObjects, { ...DEFAULT_TERMINUS }] });
+  };
+
+  const removeTerminus = (index: number) => {
+    setConfig(prev => ({ ...prev, terminusObjects: prev.terminusObjects.filter((_, i) => i !== index) }));
+  };
 
-      // Render Particles
-      if (cfg.effectMode === 'particles') {
-        ctx.globalCompositeOperation = 'lighter';
-        for (let i = particles.length - 1; i >= 0; i--) {
-          const p = particles[i];
-          p.x += p.vx;
-          p.y += p.vy;
-          p.life++;
-          const alpha = 1 - (p.life / p.maxLife);
-          if (alpha <= 0) {
-            particles.splice(i, 1);
-            continue;
-          }
-          ctx.fillStyle = p.color;
-          ctx.globalAlpha = Math.max(0, alpha);
-          ctx.beginPath();
-          ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
-          ctx.fill();
-        }
-        ctx.globalAlpha = 1.0;
+  // --- Gravity Wells ---
+  // Wells are edited on the canvas while the panel is open: drag a handle to
+  // move it, double-click empty space to add one, double-click a handle to remove it
+  const wellsEditable = menuVisible && !ambient && gravityEnabled;
+
+  const updateWell = <K extends keyof GravityWell>(index: number, key: K, value: GravityWell[K]) => {
+    setConfig(prev => ({ ...prev, gravityWells: prev.gravityWells.map((well, i) => i === index ? { ...well, [key]: value } : well) }));
+  };
+
+  const addWell = (x = DEFAULT_WELL.x, y = DEFAULT_WELL.y) => {
+    setConfig(prev => prev.gravityWells.length >= MAX_WELLS ? prev : { ...prev, gravityWells: [...prev.gravityWells, { ...DEFAULT_WELL, x, y }] });
+  };
+
+  const removeWell = (index: number) => {
+    setConfig(prev => ({ ...prev, gravityWells: prev.gravityWells.filter((_, i) => i !== index) }));
+  };
+
+  // --- Stream Paths ---
+  // With the custom layout the visible streams' paths are edited the same way:
+  // drag a control point, double-click one to remove it, or double-click empty
+  // space to add a point to the nearest path
+  const pathsEditable = menuVisible && !ambient && !!getLayout(layoutMode).editablePaths;
+
+  const updateStreamPath = (stream: number, update: (path: PathPoint[]) => PathPoint[]) => {
+    setConfig(prev => ({ ...prev, streamPaths: prev.streamPaths.map((path, i) => i === stream ? update(path) : path) }));
+  };
+
+  const addPathPoint = (x: number, y: number) => {
+    // The segment between two control points that passes closest to the click
+    let best = { stream: -1, index: 0, distance: Infinity };
+    streamPaths.slice(0, numStreams).forEach((path, stream) => {
+      for (let i = 0; i < path.length - 1; i++) {
+        const distance = distanceToSegment({ x, y }, path[i], path[i + 1]);
+        if (distance < best.distance) best = { stream, index: i + 1, distance };
       }
+    });
+    if (best.stream === -1 || streamPaths[best.stream].length >= MAX_PATH_POINTS) return;
+    updateStreamPath(best.stream, path => [...path.slice(0, best.index), { x, y }, ...path.slice(best.index)]);
+  };
 
-      animationFrameId = requestAnimationFrame(render);
+  const removePathPoint = (stream: number, index: number) => {
+    updateStreamPath(stream, path => path.length > 2 ? path.filter((_, i) => i !== index) : path);
+  };
+
+  useEffect(() => {
+    sceneRef.current?.setEditMarkers(wellsEditable || pathsEditable);
+  }, [wellsEditable, pathsEditable]);
+
+  // Pointer position as % of the view, the unit wells and paths are stored in
+  const toViewPercent = (clientX: number, clientY: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    return {
+      x: Math.round(((clientX - (rect?.left ?? 0)) / window.innerWidth) * 1000) / 10,
+      y: Math.round(((clientY - (rect?.top ?? 0)) / window.innerHeight) * 1000) / 10,
     };
+  };
 
-    render();
+  // Handles sit at stored positions, so hit-testing them needs no round trip to the scene
+  const isNearHandle = (clientX: number, clientY: number, point: PathPoint, radius: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    const x = clientX - (rect?.left ?? 0);
+    const y = clientY - (rect?.top ?? 0);
+    return Math.hypot((point.x / 100) * window.innerWidth - x, (point.y / 100) * window.innerHeight - y) <= radius * 2;
+  };
 
-    return () => {
-      window.removeEventListener('resize', resize);
-      canvas.removeEventListener('mousemove', handleCanvasMouseMove);
-      canvas.removeEventListener('mouseleave', handleMouseLeave);
-      cancelAnimationFrame(animationFrameId);
+  // Static anchors are what gets dragged
+  const findWellAt = (clientX: number, clientY: number) =>
+    wellsEditable ? gravityWells.findIndex(well => isNearHandle(clientX, clientY, well, WELL_HANDLE_RADIUS)) : -1;
+
+  const findPathPointAt = (clientX: number, clientY: number) => {
+    if (!pathsEditable) return null;
+    for (let stream = 0; stream < numStreams; stream++) {
+      const index = streamPaths[stream].findIndex(point => isNearHandle(clientX, clientY, point, PATH_HANDLE_RADIUS));
+      if (index !== -1) return { stream, index };
+    }
+    return null;
+  };
+
+  const handleStagePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    const well = findWellAt(e.clientX, e.clientY);
+    const pathPoint = well === -1 ? findPathPointAt(e.clientX, e.clientY) : null;
+    // Clicks and taps away from the edit handles send out a shockwave and surges on nearby streams
+    if (well === -1 && !pathPoint) {
+      const rect = stageRef.current?.getBoundingClientRect();
+      sceneRef.current?.press(e.clientX - (rect?.left ?? 0), e.clientY - (rect?.top ?? 0));
+      return;
+    }
+    e.preventDefault();
+
+    // Several fingers can drag several handles at once, each following its own pointer
+    const { pointerId } = e;
+    const handleDrag = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      const { x, y } = toViewPercent(event.clientX, event.clientY);
+      if (pathPoint) {
+        updateStreamPath(pathPoint.stream, path => path.map((point, i) => i === pathPoint.index ? { x, y } : point));
+      } else {
+        setConfig(prev => ({ ...prev, gravityWells: prev.gravityWells.map((w, i) => i === well ? { ...w, x, y } : w) }));
+      }
+    };
+    const handleDragEnd = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      window.removeEventListener('pointermove', handleDrag);
+      window.removeEventListener('pointerup', handleDragEnd);
+      window.removeEventListener('pointercancel', handleDragEnd);
     };
-  }, []); // Empty dep array because we use refs for all dynamic values to prevent re-binding the massive loop
+    window.addEventListener('pointermove', handleDrag);
+    window.addEventListener('pointerup', handleDragEnd);
+    window.addEventListener('pointercancel', handleDragEnd);
+  };
+
+  // On empty space a drawn path takes the new point before a well does
+  const handleStageDoubleClick = (e: React.MouseEvent) => {
+    const well = findWellAt(e.clientX, e.clientY);
+    const pathPoint = findPathPointAt(e.clientX, e.clientY);
+    const { x, y } = toViewPercent(e.clientX, e.clientY);
+    if (well !== -1) removeWell(well);
+    else if (pathPoint) removePathPoint(pathPoint.stream, pathPoint.index);
+    else if (pathsEditable) addPathPoint(x, y);
+    else if (wellsEditable) addWell(x, y);
+  };
+
+  // --- Timeline ---
+  // Keys and cues are added at the playhead, which follows the scene's simulated time
+  const [playheadTime, setPlayheadTime] = useState(0); // seconds since the scene (re)started
+  const [trackTarget, setTrackTarget] = useState('silkLuminosity');
+  const timelineEnabled = timeline.enabled;
+
+  useEffect(() => {
+    if (!timelineEnabled || !menuVisible) return;
+    const interval = setInterval(() => {
+      sceneRef.current?.getTime()
+        .then(time => setPlayheadTime(time / 1000))
+        .catch(err => console.error(`Error reading scene time: ${err.message}`));
+    }, 250);
+    return () => clearInterval(interval);
+  }, [timelineEnabled, menuVisible]);
+
+  const playhead = Math.round(timelinePosition(timeline, playheadTime) * 10) / 10;
+
+  const discreteOptions = (target: DiscreteTarget): readonly string[] => {
+    switch (target) {
+      case 'layoutMode': return LAYOUTS.map(layout => layout.id);
+      case 'paletteMode': return PALETTE_MODES;
+      case 'palette': return [...BUILT_IN_PALETTES, ...customPalettes].map(p => p.name);
+    }
+  };
+
+  const updateTimeline = (update: (timeline: Timeline) => Timeline) => {
+    setConfig(prev => ({ ...prev, timeline: update(prev.timeline) }));
+  };
+
+  // Playback assumes points in time order, so every edit re-sorts the track
+  const updateTrack = (index: number, update: (track: TimelineTrack) => TimelineTrack) => {
+    updateTimeline(t => ({
+      ...t,
+      tracks: t.tracks.map((track, i) => {
+        if (i !== index) return track;
+        const next = update(track);
+        return next.kind === 'numeric'
+          ? { ...next, keys: [...next.keys].sort((a, b) => a.time - b.time) }
+          : { ...next, cues: [...next.cues].sort((a, b) => a.time - b.time) };
+      }),
+    }));
+  };
+
+  const addTrack = () => {
+    const discrete = DISCRETE_TARGETS.find(target => target === trackTarget);
+    const track: TimelineTrack = discrete
+      ? { kind: 'discrete', target: discrete, cues: [] }
+      : { kind: 'numeric', target: trackTarget, keys: [] };
+    updateTimeline(t => t.tracks.some(existing => existing.target === trackTarget) ? t : { ...t, tracks: [...t.tracks, track] });
+  };
+
+  // New points capture the value currently set in the panel
+  const addTrackPoint = (index: number) => {
+    updateTrack(index, track => track.kind === 'numeric'
+      ? { ...track, keys: [...track.keys, { time: playhead, value: readNumericTarget(config, track.target), easing: 'easeInOut' }] }
+      : { ...track, cues: [...track.cues, { time: playhead, value: String(config[track.target]) }] });
+  };
+
+  const removeTrackPoint = (index: number, pointIndex: number) => {
+    updateTrack(index, track => track.kind === 'numeric'
+      ? { ...track, keys: track.keys.filter((_, i) => i !== pointIndex) }
+      : { ...track, cues: track.cues.filter((_, i) => i !== pointIndex) });
+  };
+
+  const updateTrackPointTime = (index: number, pointIndex: number, time: number) => {
+    updateTrack(index, track => track.kind === 'numeric'
+      ? { ...track, keys: track.keys.map((key, i) => i === pointIndex ? { ...key, time } : key) }
+      : { ...track, cues: track.cues.map((cue, i) => i === pointIndex ? { ...cue, time } : cue) });
+  };
 
   return (
     <div
       ref={containerRef}
       style={{ position: 'relative', width: '100%', height: '100%' }}
-      onMouseMove={handleMouseMove}
+      onPointerMove={handleContainerPointerMove}
+      onDragOver={e => e.preventDefault()}
+      onDrop={handleDrop}
     >
-      <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%', cursor: menuVisible ? 'default' : 'none' }} />
+      <div
+        ref={stageRef}
+        style={{ width: '100%', height: '100%', cursor: menuVisible && !ambient ? 'default' : 'none' }}
+        onPointerDown={handleStagePointerDown}
+        onDoubleClick={handleStageDoubleClick}
+      />
+
+      {/* Performance Overlay */}
+      {showHud && stats && (
+        <div style={{ position: 'absolute', top: '10px', left: '10px', padding: '5px 8px', backgroundColor: 'rgba(0, 0, 0, 0.6)', color: '#0f0', fontFamily: 'monospace', fontSize: '0.75rem', lineHeight: 1.4, pointerEvents: 'none', zIndex: 20, whiteSpace: 'pre' }}>
+          {`${stats.fps.toFixed(0)} fps\n${stats.frameTime.toFixed(1)} ms/frame\n${stats.strokes} strokes\n${stats.particles} particles\nquality: ${stats.quality}${quality === 'auto' ? ' (auto)' : ''}`}
+        </div>
+      )}
 
       {/* Settings Menu Overlay */}
       <div
@@ -683,40 +735,343 @@ const Starsilk: React.FC = () => {
           pointerEvents: menuVisible ? 'auto' : 'none',
           boxShadow: '0 4px 12px rgba(0, 0, 0, 0.5)',
           zIndex: 10,
-          display: 'flex',
+          display: ambient ? 'none' : 'flex',
           flexDirection: 'column',
           gap: '15px',
           width: '320px',
           maxHeight: '90vh',
           overflowY: 'auto'
         }}
-        onMouseMove={(e) => e.stopPropagation()}
+        onPointerMove={(e) => e.stopPropagation()}
       >
         <h3 style={{ margin: 0, color: '#00c8ff', fontSize: '1.2rem', textTransform: 'uppercase', letterSpacing: '1px' }}>StarSilk System Controls</h3>
 
+        {/* Presets */}
+        <div style={{ borderBottom: '1px solid #333', paddingBottom: '10px', display: 'flex', flexDirection: 'column', gap: '5px' }}>
+          <label style={{ fontSize: '0.85rem', color: '#888' }}>Presets</label>
+          <select
+            value=""
+            onChange={e => {
+              const [group, index] = e.target.value.split(':');
+              const preset = (group === 'builtin' ? BUILT_IN_PRESETS : savedPresets)[parseInt(index)];
+              if (preset) applyPreset(preset);
+            }}
+            style={{ width: '100%', padding: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}
+          >
+            <option value="" disabled>Load a preset…</option>
+            <optgroup label="Built-in">
+              {BUILT_IN_PRESETS.map((preset, i) => (
+                <option key={preset.name} value={`builtin:${i}`}>{preset.name}</option>
+              ))}
+            </optgroup>
+            {savedPresets.length > 0 && (
+              <optgroup label="Saved">
+                {savedPresets.map((preset, i) => (
+                  <option key={preset.name} value={`saved:${i}`}>{preset.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <input
+              type="text"
+              placeholder="Preset name"
+              value={presetName}
+              onChange={e => setPresetName(e.target.value)}
+              style={{ flex: 1, minWidth: 0, padding: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}
+            />
+            <button onClick={saveCurrentPreset} disabled={!presetName.trim()} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>Save</button>
+            <button onClick={deleteSavedPreset} disabled={!savedPresets.some(p => p.name === presetName.trim())} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>Delete</button>
+          </div>
+
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <button onClick={() => exportPresetFile(createPreset(presetName.trim() || 'Untitled', config))} style={{ flex: 1, backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Export File</button>
+            <button onClick={() => presetFileRef.current?.click()} style={{ flex: 1, backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Import File</button>
+            <input
+              ref={presetFileRef}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: 'none' }}
+              onChange={e => {
+                if (e.target.files?.[0]) handlePresetImport(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          <div style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+            <label style={{ fontSize: '0.85rem' }}>Seed</label>
+            <input
+              type="number"
+              min="0"
+              value={seed}
+              onChange={e => { if (e.target.value !== '') updateConfig('seed', parseInt(e.target.value) >>> 0); }}
+              style={{ flex: 1, minWidth: 0, padding: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}
+            />
+            <button onClick={() => updateConfig('seed', randomSeed())} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Reroll</button>
+          </div>
+
+          <button onClick={copySceneLink} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>
+            {linkCopied ? 'Link Copied!' : 'Copy Share Link'}
+          </button>
+
+          {presetError && <div style={{ fontSize: '0.75rem', color: '#ff6060' }}>{presetError}</div>}
+        </div>
+
+        {/* Ambient Playlist */}
+        <div style={{ borderBottom: '1px solid #333', paddingBottom: '10px', display: 'flex', flexDirection: 'column', gap: '5px' }}>
+          <label style={{ fontSize: '0.85rem', color: '#888' }}>Ambient Playlist</label>
+
+          {playlist.entries.map((entry, i) => {
+            const missing = !findPlaylistPreset(entry.preset, savedPresets);
+            return (
+              <div key={i} style={{ display: 'flex', gap: '5px', alignItems: 'center', fontSize: '0.75rem', color: missing ? '#ff6060' : '#ccc' }}>
+                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={missing ? 'Preset not found, skipped' : entry.preset}>{entry.preset}</span>
+                <input type="number" min={MIN_DWELL} max="3600" value={entry.dwell} onChange={e => updatePlaylistEntry(i, Math.max(MIN_DWELL, parseInt(e.target.value) || MIN_DWELL))} style={{ width: '50px', padding: '2px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+                s
+                <button onClick={() => updatePlaylist({ ...playlist, entries: playlist.entries.filter((_, j) => j !== i) })} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+              </div>
+            );
+          })}
+
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <select value={playlistPick} onChange={e => setPlaylistPick(e.target.value)} style={{ flex: 1, minWidth: 0, padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+              <optgroup label="Built-in">
+                {BUILT_IN_PRESETS.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+              </optgroup>
+              {savedPresets.length > 0 && (
+                <optgroup label="Saved">
+                  {savedPresets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+                </optgroup>
+              )}
+            </select>
+            <button onClick={() => updatePlaylist({ ...playlist, entries: [...playlist.entries, { preset: playlistPick, dwell: 60 }] })} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '3px', cursor: 'pointer' }}>Add</button>
+          </div>
+
+          <div style={{ display: 'flex', gap: '5px', alignItems: 'center', fontSize: '0.75rem', color: '#ccc' }}>
+            <select value={playlist.order} onChange={e => updatePlaylist({ ...playlist, order: e.target.value as PlaylistOrder })} style={{ padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+              <option value="sequence">In Order</option>
+              <option value="shuffle">Shuffle</option>
+            </select>
+            Crossfade: {(playlist.crossfade / 1000).toFixed(1)}s
+          </div>
+          <input type="range" min="0" max={maxCrossfade(playlist.entries)} step="500" value={playlist.crossfade} onChange={e => updatePlaylist({ ...playlist, crossfade: parseInt(e.target.value) })} />
+
+          <button onClick={startAmbientMode} disabled={!playablePlaylist} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Start Ambient Mode</button>
+          <div style={{ fontSize: '0.75rem', color: '#888' }}>Press Esc or leave fullscreen to return to the controls.</div>
+        </div>
+
         {/* Layout & Effects */}
         <div style={{ borderBottom: '1px solid #333', paddingBottom: '10px' }}>
           <label style={{ fontSize: '0.85rem', color: '#888' }}>Layout Mode</label>
-          <select value={layoutMode} onChange={e => setLayoutMode(e.target.value as LayoutMode)} style={{ width: '100%', padding: '5px', marginTop: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
-            <option value="default">Default Drift</option>
-            <option value="tree">Tree of Souls</option>
-            <option value="convergence">Orbital Convergence</option>
-            <option value="dna">Spiral DNA Helix</option>
-            <option value="river">The River Styx</option>
+          <select value={layoutMode} onChange={e => updateConfig('layoutMode', e.target.value)} style={{ width: '100%', padding: '5px', marginTop: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+            {LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{layout.label}</option>)}
+          </select>
+
+          {getLayout(layoutMode).editablePaths && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', marginTop: '5px' }}>
+              <div style={{ fontSize: '0.75rem', color: '#888' }}>Drag the points on the canvas to reshape a path; green marks where it starts. Double-click a point to remove it, or empty space to add one.</div>
+              <button onClick={() => updateConfig('streamPaths', streamPaths.map((_, i) => defaultStreamPath(i)))} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Reset Paths</button>
+            </div>
+          )}
+
+          <label style={{ fontSize: '0.85rem', color: '#888', display: 'block', marginTop: '10px' }}>Interaction Effects</label>
+          {effects.length === 0 && <div style={{ fontSize: '0.75rem', color: '#888', marginTop: '5px' }}>None: the silk ignores the pointer.</div>}
+          {effects.map(setting => (
+            <div key={setting.id} style={{ display: 'flex', flexDirection: 'column', gap: '2px', marginTop: '5px', fontSize: '0.75rem', color: '#ccc' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                {getEffect(setting.id)?.label ?? setting.id}: {setting.strength}%
+                <button onClick={() => removeEffect(setting.id)} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+              </div>
+              <input type="range" min="0" max="300" step="5" value={setting.strength} onChange={e => updateEffectStrength(setting.id, parseInt(e.target.value))} />
+            </div>
+          ))}
+          {effects.length < EFFECTS.length && (
+            <select value="" onChange={e => addEffect(e.target.value)} style={{ width: '100%', padding: '5px', marginTop: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+              <option value="" disabled>Add an effect…</option>
+              {EFFECTS.filter(effect => !effects.some(e => e.id === effect.id)).map(effect => <option key={effect.id} value={effect.id}>{effect.label}</option>)}
+            </select>
+          )}
+
+          <label style={{ fontSize: '0.85rem', display: 'block', marginTop: '10px' }}>Transition: {transitionDuration === 0 ? 'Instant' : `${(transitionDuration / 1000).toFixed(1)}s`}</label>
+          <div style={{ display: 'flex', gap: '5px', alignItems: 'center', marginTop: '5px' }}>
+            <input type="range" min="0" max="5000" step="100" value={transitionDuration} onChange={e => updateConfig('transitionDuration', parseInt(e.target.value))} style={{ flex: 1 }} />
+            <select value={transitionEasing} onChange={e => updateConfig('transitionEasing', e.target.value as EasingMode)} style={{ padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+              <option value="linear">Linear</option>
+              <option value="easeIn">Ease In</option>
+              <option value="easeOut">Ease Out</option>
+              <option value="easeInOut">Ease In-Out</option>
+            </select>
+          </div>
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '10px', fontSize: '0.85rem' }}>
+            <input type="checkbox" checked={audioReactive} onChange={e => updateConfig('audioReactive', e.target.checked)} />
+            Audio Reactivity
+          </label>
+        </div>
+
+        {/* Palette */}
+        <div style={{ borderBottom: '1px solid #333', paddingBottom: '10px', display: 'flex', flexDirection: 'column', gap: '5px' }}>
+          <label style={{ fontSize: '0.85rem', color: '#888' }}>Palette</label>
+          <select value={resolvePalette(palette, customPalettes).name} onChange={e => updateConfig('palette', e.target.value)} style={{ width: '100%', padding: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+            <optgroup label="Built-in">
+              {BUILT_IN_PALETTES.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </optgroup>
+            {customPalettes.length > 0 && (
+              <optgroup label="Custom">
+                {customPalettes.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+
+          <select value={paletteMode} onChange={e => updateConfig('paletteMode', e.target.value as PaletteMode)} style={{ width: '100%', padding: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+            <option value="stream">One Color Per Stream</option>
+            <option value="gradient">Gradient Along Stream</option>
           </select>
 
-          <label style={{ fontSize: '0.85rem', color: '#888', display: 'block', marginTop: '10px' }}>Interaction Effect</label>
-          <select value={effectMode} onChange={e => setEffectMode(e.target.value as EffectMode)} style={{ width: '100%', padding: '5px', marginTop: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
-            <option value="default">Standard Repulsion</option>
-            <option value="vortex">Interactive Vortex</option>
-            <option value="surges">Data-Packet Surges</option>
-            <option value="gravity">Gravity Wells</option>
-            <option value="particles">Terminus Particles</option>
+          <label style={{ fontSize: '0.85rem', marginTop: '5px' }}>Hue Cycle: {hueCycle === 0 ? 'Off' : `${hueCycle}°/s`}</label>
+          <input type="range" min="0" max="90" value={hueCycle} onChange={e => updateConfig('hueCycle', parseInt(e.target.value))} />
+
+          <div style={{ display: 'flex', gap: '5px', marginTop: '5px' }}>
+            <button onClick={duplicatePalette} style={{ flex: 1, backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Duplicate as Custom</button>
+            <button onClick={deleteCustomPalette} disabled={!customPalette} style={{ flex: 1, backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Delete Custom</button>
+          </div>
+
+          {customPalette && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', fontSize: '0.75rem', color: '#ccc' }}>
+              <label>Silk Stops (edge / core)</label>
+              {customPalette.silk.map((color, i) => (
+                <div key={i} style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+                  <span style={{ width: '20px' }}>#{i + 1}</span>
+                  <input type="color" value={color.edge} onChange={e => updateCustomPalette(p => ({ ...p, silk: p.silk.map((c, j) => j === i ? { ...c, edge: e.target.value } : c) }))} />
+                  <input type="color" value={color.core} onChange={e => updateCustomPalette(p => ({ ...p, silk: p.silk.map((c, j) => j === i ? { ...c, core: e.target.value } : c) }))} />
+                  <button onClick={() => updateCustomPalette(p => ({ ...p, silk: p.silk.filter((_, j) => j !== i) }))} disabled={customPalette.silk.length === 1} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+                </div>
+              ))}
+              <button onClick={() => updateCustomPalette(p => ({ ...p, silk: [...p.silk, { ...p.silk[p.silk.length - 1] }] }))} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '3px', cursor: 'pointer' }}>Add Stop</button>
+
+              <div style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+                <span style={{ flex: 1 }}>Highlight</span>
+                <input type="color" value={customPalette.highlight} onChange={e => updateCustomPalette(p => ({ ...p, highlight: e.target.value }))} />
+              </div>
+              {(['stars', 'nebula', 'sun'] as const).map(key => (
+                <div key={key} style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+                  <span style={{ flex: 1, textTransform: 'capitalize' }}>{key}</span>
+                  {customPalette[key].map((color, i) => (
+                    <input key={i} type="color" value={color} onChange={e => updatePaletteColor(key, i, e.target.value)} />
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Gravity Wells */}
+        <div style={{ borderBottom: '1px solid #333', paddingBottom: '10px', display: gravityEnabled ? 'flex' : 'none', flexDirection: 'column', gap: '5px' }}>
+          <label style={{ fontSize: '0.85rem', color: '#888' }}>Gravity Wells</label>
+          <div style={{ fontSize: '0.75rem', color: '#888' }}>Drag a well on the canvas to move it. Double-click to add or remove one.</div>
+
+          {gravityWells.map((well, i) => (
+            <div key={i} style={{ display: 'flex', flexDirection: 'column', gap: '2px', padding: '5px', border: '1px solid #333', borderRadius: '4px' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.75rem', color: '#ccc' }}>
+                Well #{i + 1} ({well.x}, {well.y})
+                <button onClick={() => removeWell(i)} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+              </div>
+
+              <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Mass: {Math.round(well.mass / 1000)}k</label>
+              <input type="range" min="5000" max="200000" step="5000" value={well.mass} onChange={e => updateWell(i, 'mass', parseInt(e.target.value))} />
+
+              <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Radius: {well.radius}px</label>
+              <input type="range" min="8" max="200" value={well.radius} onChange={e => updateWell(i, 'radius', parseInt(e.target.value))} />
+
+              <div style={{ display: 'flex', gap: '5px' }}>
+                <select value={well.polarity} onChange={e => updateWell(i, 'polarity', e.target.value as WellPolarity)} style={{ flex: 1, padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+                  <option value="attract">Attract</option>
+                  <option value="repel">Repel</option>
+                </select>
+                <select value={well.motion} onChange={e => updateWell(i, 'motion', e.target.value as WellMotion)} style={{ flex: 1, padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+                  <option value="static">Static</option>
+                  <option value="orbit">Orbit</option>
+                  <option value="pointer">Follow Pointer</option>
+                </select>
+              </div>
+            </div>
+          ))}
+
+          <button onClick={() => addWell()} disabled={gravityWells.length >= MAX_WELLS} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Add Well</button>
+        </div>
+
+        {/* Particles */}
+        <div style={{ borderBottom: '1px solid #333', paddingBottom: '10px', display: particlesEnabled ? 'flex' : 'none', flexDirection: 'column', gap: '5px' }}>
+          <label style={{ fontSize: '0.85rem', color: '#888' }}>Particles</label>
+
+          {PARTICLE_EMITTERS.map(emitter => (
+            <div key={emitter} style={{ display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '0.75rem', color: '#ccc' }}>
+              <span style={{ textTransform: 'capitalize' }}>{emitter}: {particles.emitters[emitter] === 0 ? 'Off' : `${particles.emitters[emitter]}/s`}</span>
+              <input type="range" min="0" max="200" step="5" value={particles.emitters[emitter]} onChange={e => updateEmitter(emitter, parseInt(e.target.value))} />
+            </div>
+          ))}
+          <div style={{ fontSize: '0.75rem', color: '#888' }}>Terminus, stream and surge rates are per stream, pointer rates per finger.</div>
+
+          <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Lifetime: {(particles.lifetime / 1000).toFixed(1)}s</label>
+          <input type="range" min="100" max="5000" step="100" value={particles.lifetime} onChange={e => updateParticles('lifetime', parseInt(e.target.value))} />
+
+          <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Size: {particles.size}px</label>
+          <input type="range" min="0.5" max="8" step="0.5" value={particles.size} onChange={e => updateParticles('size', parseFloat(e.target.value))} />
+
+          <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Drag: {particles.drag}%</label>
+          <input type="range" min="0" max="20" value={particles.drag} onChange={e => updateParticles('drag', parseInt(e.target.value))} />
+
+          <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Well Pull: {particles.wellForce}%</label>
+          <input type="range" min="0" max="300" step="10" value={particles.wellForce} onChange={e => updateParticles('wellForce', parseInt(e.target.value))} />
+
+          <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Pointer Push: {particles.pointerForce}%{particles.pointerForce < 0 ? ' (pulls)' : ''}</label>
+          <input type="range" min="-300" max="300" step="10" value={particles.pointerForce} onChange={e => updateParticles('pointerForce', parseInt(e.target.value))} />
+
+          <div style={{ display: 'flex', gap: '5px', alignItems: 'center', fontSize: '0.75rem', color: '#ccc' }}>
+            <label style={{ flex: 1, display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <input type="checkbox" checked={particles.color === ''} onChange={e => updateParticles('color', e.target.checked ? '' : resolvePalette(palette, customPalettes).highlight)} />
+              Palette Color
+            </label>
+            {particles.color !== '' && <input type="color" value={particles.color} onChange={e => updateParticles('color', e.target.value)} />}
+          </div>
+
+          <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Budget: {particles.budget} particles</label>
+          <input type="range" min="100" max={MAX_PARTICLE_BUDGET} step="100" value={particles.budget} onChange={e => updateParticles('budget', parseInt(e.target.value))} />
+        </div>
+
+        {/* Audio Input */}
+        <div style={{ borderBottom: '1px solid #333', paddingBottom: '10px', display: audioReactive ? 'block' : 'none' }}>
+          <label style={{ fontSize: '0.85rem', color: '#888' }}>Audio Source</label>
+          <select value={audioSource} onChange={e => updateConfig('audioSource', e.target.value as AudioSource)} style={{ width: '100%', padding: '5px', marginTop: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+            <option value="simulated">Simulated Pulse</option>
+            <option value="microphone">Microphone</option>
+            <option value="file">Audio File</option>
           </select>
 
+          {audioError && <div style={{ fontSize: '0.75rem', color: '#ff6060', marginTop: '5px' }}>{audioError}</div>}
+
+          <div style={{ display: audioSource === 'file' ? 'flex' : 'none', flexDirection: 'column', gap: '5px', marginTop: '10px' }}>
+            <label style={{ fontSize: '0.75rem', color: '#ccc' }}>{audioFileName ?? 'Drop an audio file on the canvas or choose one:'}</label>
+            <input type="file" accept="audio/*" onChange={e => { if (e.target.files?.[0]) loadAudioFile(e.target.files[0]); }} style={{ fontSize: '0.75rem' }} />
+            <audio ref={audioElementRef} controls loop style={{ width: '100%' }} />
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', marginTop: '10px' }}>
+            <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Bass → Drift: {audioDrift}%</label>
+            <input type="range" min="0" max="300" value={audioDrift} onChange={e => updateConfig('audioDrift', parseInt(e.target.value))} />
+
+            <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Mid → Width: {audioWidth}%</label>
+            <input type="range" min="0" max="300" value={audioWidth} onChange={e => updateConfig('audioWidth', parseInt(e.target.value))} />
+
+            <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Treble → Luminosity: {audioLuminosity}%</label>
+            <input type="range" min="0" max="300" value={audioLuminosity} onChange={e => updateConfig('audioLuminosity', parseInt(e.target.value))} />
+          </div>
+
           <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '10px', fontSize: '0.85rem' }}>
-            <input type="checkbox" checked={audioReactive} onChange={e => setAudioReactive(e.target.checked)} />
-            Simulated Audio Reactivity pulse
+            <input type="checkbox" checked={audioBeatSurges} onChange={e => updateConfig('audioBeatSurges', e.target.checked)} />
+            Beats Trigger Surges
           </label>
         </div>
 
@@ -725,33 +1080,121 @@ const Starsilk: React.FC = () => {
           <h4 style={{ margin: '0 0 10px 0', color: '#00c8ff' }}>Cosmos Background</h4>
 
           <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '10px', fontSize: '0.85rem' }}>
-            <input type="checkbox" checked={enableStars} onChange={e => setEnableStars(e.target.checked)} />
+            <input type="checkbox" checked={enableStars} onChange={e => updateConfig('enableStars', e.target.checked)} />
             Enable Deep Starfield & Nebulas
           </label>
 
           <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', opacity: enableStars ? 1 : 0.5 }}>
             <label style={{ fontSize: '0.85rem' }}>Star Density: {starDensity}</label>
-            <input type="range" disabled={!enableStars} min="10" max="100" value={starDensity} onChange={e => setStarDensity(parseInt(e.target.value))} />
+            <input type="range" disabled={!enableStars} min="10" max="100" value={starDensity} onChange={e => updateConfig('starDensity', parseInt(e.target.value))} />
 
             <label style={{ fontSize: '0.85rem', marginTop: '5px' }}>Luminosity: {starLuminosity}</label>
-            <input type="range" disabled={!enableStars} min="10" max="100" value={starLuminosity} onChange={e => setStarLuminosity(parseInt(e.target.value))} />
+            <input type="range" disabled={!enableStars} min="10" max="100" value={starLuminosity} onChange={e => updateConfig('starLuminosity', parseInt(e.target.value))} />
 
             <label style={{ fontSize: '0.85rem', marginTop: '5px' }}>Flicker Speed: {starFlickerSpeed}</label>
-            <input type="range" disabled={!enableStars} min="0" max="100" value={starFlickerSpeed} onChange={e => setStarFlickerSpeed(parseInt(e.target.value))} />
+            <input type="range" disabled={!enableStars} min="0" max="100" value={starFlickerSpeed} onChange={e => updateConfig('starFlickerSpeed', parseInt(e.target.value))} />
+
+            <label style={{ fontSize: '0.85rem', marginTop: '5px' }}>Pointer Parallax: {starParallax}%</label>
+            <input type="range" disabled={!enableStars} min="0" max="200" step="5" value={starParallax} onChange={e => updateConfig('starParallax', parseInt(e.target.value))} />
+
+            <label style={{ fontSize: '0.85rem', marginTop: '5px' }}>Camera Drift: {cameraDrift === 0 ? 'Off' : `${cameraDrift}%`}</label>
+            <input type="range" disabled={!enableStars} min="0" max="200" step="5" value={cameraDrift} onChange={e => updateConfig('cameraDrift', parseInt(e.target.value))} />
+
+            <label style={{ fontSize: '0.85rem', marginTop: '5px' }}>Shooting Stars: {shootingStars === 0 ? 'Off' : `${shootingStars}/min`}</label>
+            <input type="range" disabled={!enableStars} min="0" max="60" value={shootingStars} onChange={e => updateConfig('shootingStars', parseInt(e.target.value))} />
+
+            <label style={{ fontSize: '0.85rem', marginTop: '5px' }}>Nebula Clouds: {nebula.clouds === 0 ? 'Off' : nebula.clouds}</label>
+            <input type="range" disabled={!enableStars} min="0" max={MAX_NEBULA_CLOUDS} value={nebula.clouds} onChange={e => updateNebula('clouds', parseInt(e.target.value))} />
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', opacity: nebula.clouds > 0 ? 1 : 0.5 }}>
+              <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Cloud Scale: {nebula.scale}%</label>
+              <input type="range" disabled={!enableStars || nebula.clouds === 0} min="25" max="250" step="5" value={nebula.scale} onChange={e => updateNebula('scale', parseInt(e.target.value))} />
+
+              <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Cloud Density: {nebula.density}%</label>
+              <input type="range" disabled={!enableStars || nebula.clouds === 0} min="5" max="200" step="5" value={nebula.density} onChange={e => updateNebula('density', parseInt(e.target.value))} />
+
+              <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Nebula Drift: {nebula.drift === 0 ? 'Off' : `${nebula.drift}%`}</label>
+              <input type="range" disabled={!enableStars || nebula.clouds === 0} min="0" max="200" step="5" value={nebula.drift} onChange={e => updateNebula('drift', parseInt(e.target.value))} />
+
+              <div style={{ display: 'flex', gap: '5px', alignItems: 'center', flexWrap: 'wrap', fontSize: '0.75rem', color: '#ccc' }}>
+                <label style={{ flex: 1, display: 'flex', alignItems: 'center', gap: '5px' }}>
+                  <input type="checkbox" disabled={!enableStars || nebula.clouds === 0} checked={nebula.colors.length === 0} onChange={e => updateNebula('colors', e.target.checked ? [] : [...resolvePalette(palette, customPalettes).nebula])} />
+                  Palette Colors
+                </label>
+                {nebula.colors.map((color, i) => (
+                  <span key={i} style={{ display: 'flex', alignItems: 'center' }}>
+                    <input type="color" value={color} onChange={e => updateNebulaColor(i, e.target.value)} />
+                    {nebula.colors.length > 1 && (
+                      <button onClick={() => updateNebula('colors', nebula.colors.filter((_, j) => j !== i))} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+                    )}
+                  </span>
+                ))}
+                {nebula.colors.length > 0 && nebula.colors.length < MAX_NEBULA_COLORS && (
+                  <button onClick={() => updateNebula('colors', [...nebula.colors, nebula.colors[nebula.colors.length - 1]])} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>+</button>
+                )}
+              </div>
+            </div>
           </div>
 
           <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '15px', fontSize: '0.85rem' }}>
-            <input type="checkbox" checked={enableSun} onChange={e => setEnableSun(e.target.checked)} />
-            Enable Terminus Sun/Star
+            <input type="checkbox" checked={enableSun} onChange={e => updateConfig('enableSun', e.target.checked)} />
+            Enable Terminus Objects
           </label>
+
+          <div style={{ display: enableSun ? 'flex' : 'none', flexDirection: 'column', gap: '5px', marginTop: '5px' }}>
+            {terminusObjects.map((object, i) => (
+              <div key={i} style={{ display: 'flex', flexDirection: 'column', gap: '2px', padding: '5px', border: '1px solid #333', borderRadius: '4px' }}>
+                <div style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+                  <select value={object.type} onChange={e => updateTerminus(i, 'type', e.target.value as TerminusType)} style={{ flex: 1, padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+                    <option value="sun">Sun</option>
+                    <option value="pulsar">Pulsar</option>
+                    <option value="blackHole">Black Hole</option>
+                  </select>
+                  <button onClick={() => removeTerminus(i)} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+                </div>
+
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px', alignItems: 'center', fontSize: '0.75rem', color: '#ccc' }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+                    <input type="checkbox" checked={object.streams.length === 0} onChange={e => updateTerminus(i, 'streams', e.target.checked ? [] : [0])} />
+                    All Streams
+                  </label>
+                  {object.streams.length > 0 && Array.from({ length: numStreams }).map((_, s) => (
+                    <label key={s} style={{ display: 'flex', alignItems: 'center', gap: '2px' }}>
+                      <input type="checkbox" checked={object.streams.includes(s)} onChange={() => toggleTerminusStream(i, s)} />
+                      #{s + 1}
+                    </label>
+                  ))}
+                </div>
+
+                <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Radius: {object.radius}px</label>
+                <input type="range" min="5" max="150" value={object.radius} onChange={e => updateTerminus(i, 'radius', parseInt(e.target.value))} />
+
+                <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Pulse Rate: {object.pulseRate === 0 ? 'Steady' : `${object.pulseRate}%`}</label>
+                <input type="range" min="0" max="300" step="5" value={object.pulseRate} onChange={e => updateTerminus(i, 'pulseRate', parseInt(e.target.value))} />
+
+                <label style={{ fontSize: '0.75rem', color: '#ccc' }}>Glow: {object.glow}%</label>
+                <input type="range" min="0" max="300" step="5" value={object.glow} onChange={e => updateTerminus(i, 'glow', parseInt(e.target.value))} />
+
+                <div style={{ display: 'flex', gap: '5px', alignItems: 'center', fontSize: '0.75rem', color: '#ccc' }}>
+                  <label style={{ flex: 1, display: 'flex', alignItems: 'center', gap: '5px' }}>
+                    <input type="checkbox" checked={object.color === ''} onChange={e => updateTerminus(i, 'color', e.target.checked ? '' : resolvePalette(palette, customPalettes).sun[2])} />
+                    Palette Color
+                  </label>
+                  {object.color !== '' && <input type="color" value={object.color} onChange={e => updateTerminus(i, 'color', e.target.value)} />}
+                </div>
+              </div>
+            ))}
+
+            <button onClick={addTerminus} disabled={terminusObjects.length >= MAX_TERMINUS_OBJECTS} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>Add Object</button>
+          </div>
         </div>
 
         {/* Existing Controls */}
         <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
           <label style={{ fontSize: '0.85rem' }}>Stream Threads: {numStreams}</label>
-          <input type="range" min="1" max="15" value={numStreams} onChange={e => {
+          <input type="range" min="1" max={MAX_STREAMS} value={numStreams} onChange={e => {
             const val = parseInt(e.target.value);
-            setNumStreams(val);
+            updateConfig('numStreams', val);
             if (selectedStream >= val) setSelectedStream(-1);
           }} />
         </div>
@@ -790,39 +1233,255 @@ const Starsilk: React.FC = () => {
 
         <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
           <label style={{ fontSize: '0.85rem' }}>Silk Luminosity: {silkLuminosity}</label>
-          <input type="range" min="10" max="300" value={silkLuminosity} onChange={e => setSilkLuminosity(parseInt(e.target.value))} />
+          <input type="range" min="10" max="300" value={silkLuminosity} onChange={e => updateConfig('silkLuminosity', parseInt(e.target.value))} />
         </div>
 
         <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
           <label style={{ fontSize: '0.85rem' }}>Global Flow Speed: {silkSpeed}</label>
-          <input type="range" min="0" max="250" value={silkSpeed} onChange={e => setSilkSpeed(parseInt(e.target.value))} />
+          <input type="range" min="0" max="250" value={silkSpeed} onChange={e => updateConfig('silkSpeed', parseInt(e.target.value))} />
 
           <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '5px', fontSize: '0.85rem' }}>
-            <input type="checkbox" checked={variableSpeed} onChange={e => setVariableSpeed(e.target.checked)} />
+            <input type="checkbox" checked={variableSpeed} onChange={e => updateConfig('variableSpeed', e.target.checked)} />
             Variable Per-Strand Variance
           </label>
         </div>
 
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
+          <label style={{ fontSize: '0.85rem' }}>Time Scale: {timeScale}%</label>
+          <input type="range" min="0" max="400" step="5" value={timeScale} onChange={e => updateConfig('timeScale', parseInt(e.target.value))} />
+
+          <div style={{ display: 'flex', gap: '5px', marginTop: '5px' }}>
+            <button onClick={togglePause} style={{ flex: 1, backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>
+              {paused ? 'Resume' : 'Pause'}
+            </button>
+            <button onClick={() => sceneRef.current?.step()} disabled={!paused} style={{ flex: 1, backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>
+              Step Frame
+            </button>
+          </div>
+        </div>
+
         <div style={{ display: 'flex', gap: '10px' }}>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', flex: 1 }}>
             <label style={{ fontSize: '0.85rem' }}>Start X: {startX}</label>
-            <input type="range" min="-50" max="150" value={startX} onChange={e => setStartX(parseInt(e.target.value))} />
+            <input type="range" min="-50" max="150" value={startX} onChange={e => updateConfig('startX', parseInt(e.target.value))} />
           </div>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', flex: 1 }}>
             <label style={{ fontSize: '0.85rem' }}>Start Y: {startY}</label>
-            <input type="range" min="-50" max="150" value={startY} onChange={e => setStartY(parseInt(e.target.value))} />
+            <input type="range" min="-50" max="150" value={startY} onChange={e => updateConfig('startY', parseInt(e.target.value))} />
           </div>
         </div>
 
         <div style={{ display: 'flex', gap: '10px' }}>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', flex: 1 }}>
             <label style={{ fontSize: '0.85rem' }}>End X: {endX}</label>
-            <input type="range" min="-50" max="150" value={endX} onChange={e => setEndX(parseInt(e.target.value))} />
+            <input type="range" min="-50" max="150" value={endX} onChange={e => updateConfig('endX', parseInt(e.target.value))} />
           </div>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '5px', flex: 1 }}>
             <label style={{ fontSize: '0.85rem' }}>End Y: {endY}</label>
-            <input type="range" min="-50" max="150" value={endY} onChange={e => setEndY(parseInt(e.target.value))} />
+            <input type="range" min="-50" max="150" value={endY} onChange={e => updateConfig('endY', parseInt(e.target.value))} />
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div style={{ borderTop: '1px solid #333', paddingTop: '10px', display: 'flex', flexDirection: 'column', gap: '5px' }}>
+          <h4 style={{ margin: '0 0 5px 0', color: '#00c8ff' }}>Timeline</h4>
+
+          <div style={{ display: 'flex', gap: '10px', alignItems: 'center', fontSize: '0.85rem' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <input type="checkbox" checked={timeline.enabled} onChange={e => updateTimeline(t => ({ ...t, enabled: e.target.checked }))} />
+              Enabled
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <input type="checkbox" checked={timeline.loop} onChange={e => updateTimeline(t => ({ ...t, loop: e.target.checked }))} />
+              Loop
+            </label>
+          </div>
+
+          <div style={{ display: 'flex', gap: '5px', alignItems: 'center', fontSize: '0.75rem', color: '#ccc' }}>
+            Length (s)
+            <input type="number" min="1" max="3600" value={timeline.duration} onChange={e => updateTimeline(t => ({ ...t, duration: Math.max(1, parseInt(e.target.value) || 1) }))} style={{ width: '60px', padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+            <span style={{ flex: 1, textAlign: 'right' }}>{timeline.enabled ? `${playhead.toFixed(1)}s` : 'Stopped'}</span>
+            <button onClick={() => sceneRef.current?.resetNodes()} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '3px', cursor: 'pointer' }}>Restart</button>
+          </div>
+
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <select value={trackTarget} onChange={e => setTrackTarget(e.target.value)} style={{ flex: 1, minWidth: 0, padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+              <optgroup label="Parameters">
+                {NUMERIC_TARGETS.map(target => <option key={target} value={target}>{timelineTargetLabel(target)}</option>)}
+              </optgroup>
+              <optgroup label="Per-Stream">
+                {Array.from({ length: numStreams }).flatMap((_, i) => STREAM_TARGET_KEYS.map(key => (
+                  <option key={streamTarget(i, key)} value={streamTarget(i, key)}>{timelineTargetLabel(streamTarget(i, key))}</option>
+                )))}
+              </optgroup>
+              <optgroup label="Effects">
+                {EFFECTS.map(effect => <option key={effect.id} value={effectTarget(effect.id)}>{timelineTargetLabel(effectTarget(effect.id))}</option>)}
+              </optgroup>
+              <optgroup label="Switches">
+                {DISCRETE_TARGETS.map(target => <option key={target} value={target}>{timelineTargetLabel(target)}</option>)}
+              </optgroup>
+            </select>
+            <button onClick={addTrack} disabled={timeline.tracks.some(track => track.target === trackTarget)} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '3px', cursor: 'pointer' }}>Add Track</button>
+          </div>
+
+          {timeline.tracks.map((track, i) => (
+            <div key={track.target} style={{ display: 'flex', flexDirection: 'column', gap: '2px', padding: '5px', border: '1px solid #333', borderRadius: '4px', fontSize: '0.75rem', color: '#ccc' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                {timelineTargetLabel(track.target)}
+                <button onClick={() => updateTimeline(t => ({ ...t, tracks: t.tracks.filter((_, j) => j !== i) }))} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+              </div>
+
+              {track.kind === 'numeric' && track.keys.map((key, k) => (
+                <div key={k} style={{ display: 'flex', gap: '3px', alignItems: 'center' }}>
+                  <input type="number" min="0" step="0.1" value={key.time} onChange={e => updateTrackPointTime(i, k, Math.max(0, parseFloat(e.target.value) || 0))} style={{ width: '50px', padding: '2px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+                  <input
+                    type="number"
+                    value={key.value}
+                    onChange={e => {
+                      const value = clampKeyValue(track.target, parseFloat(e.target.value) || 0);
+                      updateTrack(i, t => t.kind === 'numeric' ? { ...t, keys: t.keys.map((other, j) => j === k ? { ...other, value } : other) } : t);
+                    }}
+                    style={{ width: '55px', padding: '2px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}
+                  />
+                  <select
+                    value={key.easing}
+                    onChange={e => {
+                      const easing = e.target.value as EasingMode;
+                      updateTrack(i, t => t.kind === 'numeric' ? { ...t, keys: t.keys.map((other, j) => j === k ? { ...other, easing } : other) } : t);
+                    }}
+                    style={{ flex: 1, minWidth: 0, padding: '2px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}
+                  >
+                    {EASING_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                  </select>
+                  <button onClick={() => removeTrackPoint(i, k)} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+                </div>
+              ))}
+
+              {track.kind === 'discrete' && track.cues.map((cue, k) => (
+                <div key={k} style={{ display: 'flex', gap: '3px', alignItems: 'center' }}>
+                  <input type="number" min="0" step="0.1" value={cue.time} onChange={e => updateTrackPointTime(i, k, Math.max(0, parseFloat(e.target.value) || 0))} style={{ width: '50px', padding: '2px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+                  <select
+                    value={cue.value}
+                    onChange={e => {
+                      const value = e.target.value;
+                      updateTrack(i, t => t.kind === 'discrete' ? { ...t, cues: t.cues.map((other, j) => j === k ? { ...other, value } : other) } : t);
+                    }}
+                    style={{ flex: 1, minWidth: 0, padding: '2px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}
+                  >
+                    {discreteOptions(track.target).map(option => <option key={option} value={option}>{option}</option>)}
+                  </select>
+                  <button onClick={() => removeTrackPoint(i, k)} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', cursor: 'pointer' }}>×</button>
+                </div>
+              ))}
+
+              <button onClick={() => addTrackPoint(i)} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '3px', cursor: 'pointer' }}>
+                {track.kind === 'numeric' ? 'Add Key' : 'Add Cue'} at {playhead.toFixed(1)}s
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Performance */}
+        <div style={{ borderTop: '1px solid #333', paddingTop: '10px', display: 'flex', flexDirection: 'column', gap: '5px' }}>
+          <h4 style={{ margin: '0 0 5px 0', color: '#00c8ff' }}>Performance</h4>
+
+          <div style={{ display: 'flex', gap: '5px', alignItems: 'center', fontSize: '0.85rem' }}>
+            Quality
+            <select value={quality} onChange={e => updatePerformance('quality', e.target.value as QualityMode)} style={{ flex: 1, padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+              {QUALITY_MODES.map(mode => <option key={mode} value={mode}>{mode === 'auto' ? 'Adaptive' : mode[0].toUpperCase() + mode.slice(1)}</option>)}
+            </select>
+          </div>
+
+          {quality === 'auto' && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
+              <label style={{ fontSize: '0.85rem' }}>Frame Budget: {frameBudget}ms ({Math.round(1000 / frameBudget)} fps)</label>
+              <input type="range" min={MIN_FRAME_BUDGET} max={MAX_FRAME_BUDGET} value={frameBudget} onChange={e => updatePerformance('frameBudget', parseInt(e.target.value))} />
+              <div style={{ fontSize: '0.75rem', color: '#888' }}>Lowers spline resolution, stars and slices while frames run over budget, and restores them once there is headroom.</div>
+            </div>
+          )}
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '0.85rem' }}>
+            <input type="checkbox" checked={showHud} onChange={e => updatePerformance('showHud', e.target.checked)} />
+            Show Performance Overlay
+          </label>
+        </div>
+
+        {/* Offline Export */}
+        <div style={{ borderTop: '1px solid #333', paddingTop: '10px', display: 'flex', flexDirection: 'column', gap: '5px' }}>
+          <h4 style={{ margin: '0 0 5px 0', color: '#00c8ff' }}>Export Clip</h4>
+
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', flex: 1, fontSize: '0.75rem', color: '#ccc' }}>
+              Width
+              <input type="number" min="16" max="7680" value={clipOptions.width} onChange={e => updateClipOption('width', Math.max(16, parseInt(e.target.value) || 16))} style={{ padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+            </label>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', flex: 1, fontSize: '0.75rem', color: '#ccc' }}>
+              Height
+              <input type="number" min="16" max="4320" value={clipOptions.height} onChange={e => updateClipOption('height', Math.max(16, parseInt(e.target.value) || 16))} style={{ padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+            </label>
+          </div>
+
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', flex: 1, fontSize: '0.75rem', color: '#ccc' }}>
+              Seconds
+              <input type="number" min="1" max="600" value={clipOptions.duration} onChange={e => updateClipOption('duration', Math.max(1, parseInt(e.target.value) || 1))} style={{ padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+            </label>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', flex: 1, fontSize: '0.75rem', color: '#ccc' }}>
+              FPS
+              <select value={clipOptions.fps} onChange={e => updateClipOption('fps', parseInt(e.target.value))} style={{ padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+                <option value={24}>24</option>
+                <option value={30}>30</option>
+                <option value={60}>60</option>
+              </select>
+            </label>
           </div>
+
+          <select value={clipOptions.format} onChange={e => updateClipOption('format', e.target.value as ClipFormat)} style={{ width: '100%', padding: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}>
+            <option value="webm">WebM Video</option>
+            <option value="png">PNG Sequence (.zip)</option>
+          </select>
+
+          <button onClick={startClipExport} disabled={exportProgress !== null} style={{ backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>
+            {exportProgress === null ? 'Render Clip' : `Rendering… ${Math.round(exportProgress * 100)}%`}
+          </button>
+
+          <h4 style={{ margin: '10px 0 5px 0', color: '#00c8ff' }}>Export Poster</h4>
+
+          <select
+            value={POSTER_SIZES.findIndex(size => size.width === posterSize.width && size.height === posterSize.height)}
+            onChange={e => {
+              const size = POSTER_SIZES[parseInt(e.target.value)];
+              if (size) setPosterSize({ width: size.width, height: size.height });
+            }}
+            style={{ width: '100%', padding: '5px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }}
+          >
+            <option value={-1} disabled>Custom</option>
+            {POSTER_SIZES.map((size, i) => (
+              <option key={size.label} value={i}>{size.label} ({size.width}×{size.height})</option>
+            ))}
+          </select>
+
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', flex: 1, fontSize: '0.75rem', color: '#ccc' }}>
+              Width
+              <input type="number" min="16" max="16384" value={posterSize.width} onChange={e => setPosterSize(prev => ({ ...prev, width: Math.max(16, parseInt(e.target.value) || 16) }))} style={{ padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+            </label>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: '2px', flex: 1, fontSize: '0.75rem', color: '#ccc' }}>
+              Height
+              <input type="number" min="16" max="16384" value={posterSize.height} onChange={e => setPosterSize(prev => ({ ...prev, height: Math.max(16, parseInt(e.target.value) || 16) }))} style={{ padding: '3px', backgroundColor: '#222', color: '#fff', border: '1px solid #444' }} />
+            </label>
+          </div>
+
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <button onClick={startPosterExport} disabled={posterRendering} style={{ flex: 1, backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>
+              {posterRendering ? 'Rendering…' : 'Render Poster'}
+            </button>
+            <button onClick={startSvgExport} style={{ flex: 1, backgroundColor: '#222', color: '#fff', border: '1px solid #444', padding: '5px', cursor: 'pointer' }}>
+              Export SVG
+            </button>
+          </div>
+
+          {exportError && <div style={{ fontSize: '0.75rem', color: '#ff6060' }}>{exportError}</div>}
         </div>
 
         <button
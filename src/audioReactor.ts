@@ -0,0 +1,124 @@
+// --- Audio Analysis ---
+// Feeds the silk with real frequency data from a microphone, a dropped file or
+// an <audio> element. Everything downstream only sees normalised band levels.
+
+export const AUDIO_SOURCES = ['simulated', 'microphone', 'file'] as const;
+export type AudioSource = typeof AUDIO_SOURCES[number];
+
+export interface AudioLevels {
+  bass: number; // 0..1 energy below ~250 Hz
+  mid: number; // 0..1 energy 250 Hz - 2 kHz
+  treble: number; // 0..1 energy 2 kHz - 12 kHz
+  beat: boolean; // true on the frame a bass onset is detected
+}
+
+export const SILENT_AUDIO: AudioLevels = { bass: 0, mid: 0, treble: 0, beat: false };
+
+// The original two-sine pulse, kept as the 'simulated' source
+export const simulateAudio = (time: number): AudioLevels => {
+  const level = Math.sin(time * 0.01) * Math.sin(time * 0.003) * 0.5 + 0.5;
+  return { bass: level, mid: level, treble: level, beat: false };
+};
+
+const BAND_LIMITS = { bass: [20, 250], mid: [250, 2000], treble: [2000, 12000] } as const;
+const BEAT_HISTORY = 43; // ~0.7s of frames at 60fps
+const BEAT_THRESHOLD = 1.4; // onset when bass exceeds the rolling average by 40%
+const BEAT_MIN_LEVEL = 0.15;
+const BEAT_COOLDOWN = 250; // ms
+
+export class AudioReactor {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private elementSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+  private bins: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+  private bassHistory: number[] = [];
+  private lastBeat = -Infinity;
+
+  private ensureContext(): { context: AudioContext; analyser: AnalyserNode } {
+    if (!this.context || !this.analyser) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.analyser.smoothingTimeConstant = 0.8;
+      this.bins = new Uint8Array(this.analyser.frequencyBinCount);
+    }
+    if (this.context.state === 'suspended') this.context.resume();
+    return { context: this.context, analyser: this.analyser };
+  }
+
+  async connectMicrophone() {
+    const { context, analyser } = this.ensureContext();
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    this.detach();
+    this.stream = stream;
+    // Microphone is analysed only, never routed to the speakers
+    this.source = context.createMediaStreamSource(stream);
+    this.source.connect(analyser);
+  }
+
+  connectElement(element: HTMLMediaElement) {
+    const { context, analyser } = this.ensureContext();
+    this.detach();
+    // A media element can only ever be wrapped by one source node
+    let source = this.elementSources.get(element);
+    if (!source) {
+      source = context.createMediaElementSource(element);
+      this.elementSources.set(element, source);
+    }
+    this.source = source;
+    this.source.connect(analyser);
+    analyser.connect(context.destination);
+  }
+
+  disconnect() {
+    this.detach();
+    this.bassHistory = [];
+  }
+
+  // A captured media element is only heard through the graph, so it is paused
+  // rather than left playing silently
+  private detach() {
+    if (this.source instanceof MediaElementAudioSourceNode) this.source.mediaElement.pause();
+    this.source?.disconnect();
+    this.analyser?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.source = null;
+    this.stream = null;
+  }
+
+  get connected(): boolean {
+    return this.source !== null;
+  }
+
+  private bandLevel(low: number, high: number): number {
+    const binHz = this.context!.sampleRate / this.analyser!.fftSize;
+    const from = Math.max(0, Math.floor(low / binHz));
+    const to = Math.min(this.bins.length - 1, Math.ceil(high / binHz));
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += this.bins[i];
+    return sum / ((to - from + 1) * 255);
+  }
+
+  sample(now: number): AudioLevels {
+    if (!this.analyser || !this.source) return SILENT_AUDIO;
+    this.analyser.getByteFrequencyData(this.bins);
+
+    const bass = this.bandLevel(...BAND_LIMITS.bass);
+    const mid = this.bandLevel(...BAND_LIMITS.mid);
+    const treble = this.bandLevel(...BAND_LIMITS.treble);
+
+    // Energy onset detection against a rolling bass average
+    const average = this.bassHistory.length > 0
+      ? this.bassHistory.reduce((a, b) => a + b, 0) / this.bassHistory.length
+      : bass;
+    this.bassHistory.push(bass);
+    if (this.bassHistory.length > BEAT_HISTORY) this.bassHistory.shift();
+
+    const beat = bass > BEAT_MIN_LEVEL && bass > average * BEAT_THRESHOLD && now - this.lastBeat > BEAT_COOLDOWN;
+    if (beat) this.lastBeat = now;
+
+    return { bass, mid, treble, beat };
+  }
+}
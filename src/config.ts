@@ -0,0 +1,406 @@
+import { AUDIO_SOURCES, type AudioSource } from './audioReactor';
+import { EASING_MODES, type EasingMode } from './engine/easing';
+import { isEffectId } from './engine/effects';
+import { LAYOUTS, isLayoutId } from './engine/layouts';
+import { DEFAULT_PALETTE, PALETTE_MODES, isHexColor, type Palette, type PaletteMode } from './palettes';
+import { DEFAULT_TIMELINE, DISCRETE_TARGETS, clampKeyValue, isNumericTarget, type Timeline, type TimelineTrack } from './timeline';
+
+// --- Types & Interfaces ---
+export type LayoutMode = string; // id of a layout in the engine's registry (engine/layouts)
+
+export const WELL_POLARITIES = ['attract', 'repel'] as const;
+export const TERMINUS_TYPES = ['sun', 'pulsar', 'blackHole'] as const;
+export const WELL_MOTIONS = ['static', 'orbit', 'pointer'] as const;
+
+export type WellPolarity = typeof WELL_POLARITIES[number];
+export type WellMotion = typeof WELL_MOTIONS[number];
+export type TerminusType = typeof TERMINUS_TYPES[number];
+
+export const MAX_STREAMS = 15;
+export const MAX_WELLS = 8;
+export const MAX_PATH_POINTS = 16;
+export const MAX_PARTICLE_BUDGET = 10000;
+export const MAX_NEBULA_CLOUDS = 8;
+export const MAX_NEBULA_COLORS = 4;
+export const MAX_TERMINUS_OBJECTS = 8;
+
+// Where particles come from; 'terminus', 'stream' and 'surges' emit per stream
+export const PARTICLE_EMITTERS = ['terminus', 'stream', 'surges', 'pointer', 'sun'] as const;
+
+export type ParticleEmitter = typeof PARTICLE_EMITTERS[number];
+
+// An interaction effect the scene runs; several can be active at once
+export interface EffectSetting {
+  id: string; // id of an effect in the engine's registry (engine/effects)
+  strength: number; // %, 100 being the effect as designed
+}
+
+export interface StreamConfig {
+  speed: number;
+  width: number;
+  luminosity: number;
+}
+
+export interface GravityWell {
+  x: number; // anchor, % of the view like startX/endX
+  y: number;
+  mass: number;
+  radius: number; // px; softens the pull near the centre
+  polarity: WellPolarity;
+  motion: WellMotion; // stay put, circle the anchor, or chase the pointer
+}
+
+// Control point of a drawn stream path, % of the view like startX/endX
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+// A focal object where streams end, drawn while enableSun is on
+export interface TerminusObject {
+  type: TerminusType;
+  streams: number[]; // indices of the streams ending here; empty = every stream, at the layout's terminus
+  color: string; // hex, or '' for the palette's sun colours
+  radius: number; // px
+  pulseRate: number; // % speed of the pulse, 0 = steady
+  glow: number; // % size of the halo, accretion disc or beams
+}
+
+// Used while the 'particles' effect is active, whose strength scales every emitter
+export interface ParticleSettings {
+  emitters: Record<ParticleEmitter, number>; // particles per second from each source, 0 = off
+  budget: number; // most particles alive at once; spawns beyond it are skipped
+  lifetime: number; // ms, on average
+  size: number; // px radius, on average
+  color: string; // hex, or '' for the palette highlight
+  drag: number; // % of its speed a particle loses per step
+  wellForce: number; // % pull from gravity wells, while the 'gravity' effect is active
+  pointerForce: number; // % push away from pointers
+}
+
+// The procedural nebula behind the starfield, shown with the stars
+export interface NebulaSettings {
+  clouds: number; // 0 = no nebula
+  colors: string[]; // hex, blended within each cloud; empty follows the palette's nebula colours
+  scale: number; // % cloud size
+  density: number; // % puffs per cloud and their opacity
+  drift: number; // % speed of the slow wander across the view, 0 = still
+}
+
+export interface Config {
+  seed: number;
+  numStreams: number;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  layoutMode: LayoutMode;
+  effects: EffectSetting[];
+  audioReactive: boolean;
+  audioSource: AudioSource;
+  audioDrift: number; // bass -> drift amplitude gain (%)
+  audioWidth: number; // mid -> stream width gain (%)
+  audioLuminosity: number; // treble -> luminosity gain (%)
+  audioBeatSurges: boolean; // beat onsets fire surges
+  enableStars: boolean;
+  starDensity: number;
+  starLuminosity: number;
+  starFlickerSpeed: number;
+  starParallax: number; // % of the depth shift that follows the pointer
+  cameraDrift: number; // % speed of a slow camera wander over the starfield, 0 = still
+  shootingStars: number; // per minute, on average
+  nebula: NebulaSettings;
+  enableSun: boolean;
+  terminusObjects: TerminusObject[];
+  silkLuminosity: number;
+  silkSpeed: number;
+  variableSpeed: boolean;
+  timeScale: number; // simulation speed (%), 100 = real time
+  streamConfigs: StreamConfig[];
+  palette: string; // name of a built-in or custom palette
+  paletteMode: PaletteMode;
+  hueCycle: number; // silk hue rotation (degrees per simulated second), 0 = off
+  customPalettes: Palette[];
+  gravityWells: GravityWell[]; // active with the 'gravity' effect
+  streamPaths: PathPoint[][]; // one spline per stream, used by the 'custom' layout
+  particles: ParticleSettings;
+  transitionDuration: number; // ms of simulated time to morph between layouts, 0 = snap
+  transitionEasing: EasingMode;
+  timeline: Timeline;
+}
+
+export const DEFAULT_STREAM_CONFIG: StreamConfig = { speed: 100, width: 100, luminosity: 100 };
+
+export const DEFAULT_PARTICLES: ParticleSettings = {
+  emitters: { terminus: 45, stream: 0, surges: 0, pointer: 0, sun: 0 },
+  budget: 2000,
+  lifetime: 800,
+  size: 2,
+  color: '',
+  drag: 0,
+  wellForce: 100,
+  pointerForce: 100,
+};
+
+export const DEFAULT_NEBULA: NebulaSettings = {
+  clouds: 3,
+  colors: [],
+  scale: 100,
+  density: 50,
+  drift: 20,
+};
+
+export const DEFAULT_TERMINUS: TerminusObject = { type: 'sun', streams: [], color: '', radius: 40, pulseRate: 100, glow: 100 };
+
+export const DEFAULT_WELL: GravityWell = { x: 50, y: 50, mass: 60000, radius: 32, polarity: 'attract', motion: 'static' };
+
+// A gentle S-curve across the view, stacked so that streams start out apart
+export const defaultStreamPath = (index: number): PathPoint[] => {
+  const y = 50 + (index - Math.floor(MAX_STREAMS / 2)) * 5;
+  return [{ x: -10, y }, { x: 30, y: y - 10 }, { x: 70, y: y + 10 }, { x: 110, y }];
+};
+
+export const DEFAULT_CONFIG: Config = {
+  seed: 0,
+  numStreams: 3,
+  startX: -10,
+  startY: 50,
+  endX: 110,
+  endY: 50,
+  layoutMode: 'default',
+  effects: [{ id: 'repulsion', strength: 100 }],
+  audioReactive: false,
+  audioSource: 'simulated',
+  audioDrift: 100,
+  audioWidth: 50,
+  audioLuminosity: 50,
+  audioBeatSurges: true,
+  enableStars: true,
+  starDensity: 50,
+  starLuminosity: 50,
+  starFlickerSpeed: 50,
+  starParallax: 50,
+  cameraDrift: 0,
+  shootingStars: 0,
+  nebula: DEFAULT_NEBULA,
+  enableSun: true,
+  terminusObjects: [DEFAULT_TERMINUS],
+  silkLuminosity: 100,
+  silkSpeed: 50,
+  variableSpeed: false,
+  timeScale: 100,
+  streamConfigs: Array.from({ length: MAX_STREAMS }, () => ({ ...DEFAULT_STREAM_CONFIG })),
+  palette: DEFAULT_PALETTE.name,
+  paletteMode: 'stream',
+  hueCycle: 0,
+  customPalettes: [],
+  gravityWells: [
+    { ...DEFAULT_WELL, x: 30, y: 70 },
+    { ...DEFAULT_WELL, x: 70, y: 30 },
+  ],
+  streamPaths: Array.from({ length: MAX_STREAMS }, (_, i) => defaultStreamPath(i)),
+  particles: DEFAULT_PARTICLES,
+  transitionDuration: 1500,
+  transitionEasing: 'easeInOut',
+  timeline: DEFAULT_TIMELINE,
+};
+
+// --- Validation ---
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const sanitizeStreamConfigs = (value: unknown): StreamConfig[] => {
+  const list = Array.isArray(value) ? value : [];
+  return Array.from({ length: MAX_STREAMS }, (_, i) => {
+    const raw = isRecord(list[i]) ? list[i] : {};
+    const stream = { ...DEFAULT_STREAM_CONFIG };
+    for (const key of Object.keys(stream) as (keyof StreamConfig)[]) {
+      if (Number.isFinite(raw[key])) stream[key] = raw[key] as number;
+    }
+    return stream;
+  });
+};
+
+const sanitizeWells = (value: unknown): GravityWell[] => {
+  if (!Array.isArray(value)) return structuredClone(DEFAULT_CONFIG.gravityWells);
+  return value.filter(isRecord).slice(0, MAX_WELLS).map(raw => ({
+    x: Number.isFinite(raw.x) ? raw.x as number : DEFAULT_WELL.x,
+    y: Number.isFinite(raw.y) ? raw.y as number : DEFAULT_WELL.y,
+    mass: Number.isFinite(raw.mass) ? raw.mass as number : DEFAULT_WELL.mass,
+    radius: Number.isFinite(raw.radius) ? Math.max(1, raw.radius as number) : DEFAULT_WELL.radius,
+    polarity: isOneOf(WELL_POLARITIES, raw.polarity) ? raw.polarity : DEFAULT_WELL.polarity,
+    motion: isOneOf(WELL_MOTIONS, raw.motion) ? raw.motion : DEFAULT_WELL.motion,
+  }));
+};
+
+// Keeps a path drawable: unreadable points are dropped and too short a path is replaced
+const sanitizeStreamPaths = (value: unknown): PathPoint[][] => {
+  const list = Array.isArray(value) ? value : [];
+  return Array.from({ length: MAX_STREAMS }, (_, i) => {
+    const points = (Array.isArray(list[i]) ? list[i] as unknown[] : [])
+      .filter(isRecord)
+      .filter(point => Number.isFinite(point.x) && Number.isFinite(point.y))
+      .slice(0, MAX_PATH_POINTS)
+      .map(point => ({ x: point.x as number, y: point.y as number }));
+    return points.length >= 2 ? points : defaultStreamPath(i);
+  });
+};
+
+// Unknown effects are dropped, and an effect listed twice keeps its first strength
+const sanitizeEffects = (value: unknown): EffectSetting[] => {
+  if (!Array.isArray(value)) return structuredClone(DEFAULT_CONFIG.effects);
+  const seen = new Set<string>();
+  return value.filter(isRecord).flatMap(raw => {
+    if (!isEffectId(raw.id) || seen.has(raw.id)) return [];
+    seen.add(raw.id);
+    return [{ id: raw.id, strength: Number.isFinite(raw.strength) ? Math.max(0, raw.strength as number) : 100 }];
+  });
+};
+
+const finiteIn = (value: unknown, min: number, max: number, fallback: number): number =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, value as number)) : fallback;
+
+const sanitizeParticles = (value: unknown): ParticleSettings => {
+  const raw = isRecord(value) ? value : {};
+  const emitters = isRecord(raw.emitters) ? raw.emitters : {};
+  return {
+    emitters: Object.fromEntries(PARTICLE_EMITTERS.map(emitter =>
+      [emitter, finiteIn(emitters[emitter], 0, Infinity, DEFAULT_PARTICLES.emitters[emitter])])) as Record<ParticleEmitter, number>,
+    budget: Math.round(finiteIn(raw.budget, 0, MAX_PARTICLE_BUDGET, DEFAULT_PARTICLES.budget)),
+    lifetime: finiteIn(raw.lifetime, 1, Infinity, DEFAULT_PARTICLES.lifetime),
+    size: finiteIn(raw.size, 0, Infinity, DEFAULT_PARTICLES.size),
+    color: raw.color === '' || isHexColor(raw.color) ? raw.color : DEFAULT_PARTICLES.color,
+    drag: finiteIn(raw.drag, 0, 100, DEFAULT_PARTICLES.drag),
+    wellForce: finiteIn(raw.wellForce, -Infinity, Infinity, DEFAULT_PARTICLES.wellForce),
+    pointerForce: finiteIn(raw.pointerForce, -Infinity, Infinity, DEFAULT_PARTICLES.pointerForce),
+  };
+};
+
+const sanitizeTerminusObjects = (value: unknown): TerminusObject[] => {
+  if (!Array.isArray(value)) return structuredClone(DEFAULT_CONFIG.terminusObjects);
+  return value.filter(isRecord).slice(0, MAX_TERMINUS_OBJECTS).map(raw => ({
+    type: isOneOf(TERMINUS_TYPES, raw.type) ? raw.type : DEFAULT_TERMINUS.type,
+    streams: Array.isArray(raw.streams)
+      ? [...new Set(raw.streams.filter((s): s is number => Number.isInteger(s) && s >= 0 && s < MAX_STREAMS))].sort((a, b) => a - b)
+      : [],
+    color: raw.color === '' || isHexColor(raw.color) ? raw.color : DEFAULT_TERMINUS.color,
+    radius: finiteIn(raw.radius, 1, Infinity, DEFAULT_TERMINUS.radius),
+    pulseRate: finiteIn(raw.pulseRate, 0, Infinity, DEFAULT_TERMINUS.pulseRate),
+    glow: finiteIn(raw.glow, 0, Infinity, DEFAULT_TERMINUS.glow),
+  }));
+};
+
+const sanitizeNebula = (value: unknown): NebulaSettings => {
+  const raw = isRecord(value) ? value : {};
+  return {
+    clouds: Math.round(finiteIn(raw.clouds, 0, MAX_NEBULA_CLOUDS, DEFAULT_NEBULA.clouds)),
+    colors: Array.isArray(raw.colors) ? raw.colors.filter(isHexColor).slice(0, MAX_NEBULA_COLORS) : [...DEFAULT_NEBULA.colors],
+    scale: finiteIn(raw.scale, 1, Infinity, DEFAULT_NEBULA.scale),
+    density: finiteIn(raw.density, 0, Infinity, DEFAULT_NEBULA.density),
+    drift: finiteIn(raw.drift, 0, Infinity, DEFAULT_NEBULA.drift),
+  };
+};
+
+// Options a discrete track may switch to; palettes are free-form names
+const DISCRETE_OPTIONS: Record<string, readonly string[] | null> = {
+  layoutMode: LAYOUTS.map(layout => layout.id),
+  paletteMode: PALETTE_MODES,
+  palette: null,
+};
+
+const byTime = (a: { time: number }, b: { time: number }) => a.time - b.time;
+
+const sanitizeTimeline = (value: unknown): Timeline => {
+  const raw = isRecord(value) ? value : {};
+  const tracks = (Array.isArray(raw.tracks) ? raw.tracks : []).filter(isRecord).flatMap((track): TimelineTrack[] => {
+    const points = (Array.isArray(track.keys) ? track.keys : Array.isArray(track.cues) ? track.cues : [])
+      .filter(isRecord)
+      .filter(point => Number.isFinite(point.time) && (point.time as number) >= 0);
+
+    if (track.kind === 'numeric' && typeof track.target === 'string' && isNumericTarget(track.target)) {
+      const keys = points.filter(key => Number.isFinite(key.value)).map(key => ({
+        time: key.time as number,
+        value: clampKeyValue(track.target as string, key.value as number),
+        easing: isOneOf(EASING_MODES, key.easing) ? key.easing : 'linear' as const,
+      }));
+      return [{ kind: 'numeric', target: track.target, keys: keys.sort(byTime) }];
+    }
+    if (track.kind === 'discrete' && isOneOf(DISCRETE_TARGETS, track.target)) {
+      const options = DISCRETE_OPTIONS[track.target];
+      const cues = points
+        .filter(cue => typeof cue.value === 'string' && (!options || options.includes(cue.value)))
+        .map(cue => ({ time: cue.time as number, value: cue.value as string }));
+      return [{ kind: 'discrete', target: track.target, cues: cues.sort(byTime) }];
+    }
+    return [];
+  });
+
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : DEFAULT_TIMELINE.enabled,
+    loop: typeof raw.loop === 'boolean' ? raw.loop : DEFAULT_TIMELINE.loop,
+    duration: Number.isFinite(raw.duration) && (raw.duration as number) > 0 ? raw.duration as number : DEFAULT_TIMELINE.duration,
+    tracks,
+  };
+};
+
+const hexList = <T extends string[]>(value: unknown, fallback: T): T =>
+  fallback.map((color, i) => Array.isArray(value) && isHexColor(value[i]) ? value[i] : color) as T;
+
+// Drops palettes without a name and repairs any unreadable colour from the default palette
+const sanitizePalettes = (value: unknown): Palette[] => {
+  const list = Array.isArray(value) ? value : [];
+  return list.filter(isRecord).flatMap(raw => {
+    if (typeof raw.name !== 'string' || !raw.name.trim()) return [];
+    const silk = (Array.isArray(raw.silk) ? raw.silk : []).filter(isRecord).map((color, i) => {
+      const fallback = DEFAULT_PALETTE.silk[i % DEFAULT_PALETTE.silk.length];
+      return {
+        edge: isHexColor(color.edge) ? color.edge : fallback.edge,
+        core: isHexColor(color.core) ? color.core : fallback.core,
+      };
+    });
+    return [{
+      name: raw.name.trim(),
+      silk: silk.length > 0 ? silk : structuredClone(DEFAULT_PALETTE.silk),
+      highlight: isHexColor(raw.highlight) ? raw.highlight : DEFAULT_PALETTE.highlight,
+      stars: hexList(raw.stars, DEFAULT_PALETTE.stars),
+      nebula: hexList(raw.nebula, DEFAULT_PALETTE.nebula),
+      sun: hexList(raw.sun, DEFAULT_PALETTE.sun),
+    }];
+  });
+};
+
+// Builds a complete Config from untrusted input: unknown keys are dropped and
+// missing or mistyped values fall back to their defaults.
+export const sanitizeConfig = (value: unknown): Config => {
+  const raw = isRecord(value) ? value : {};
+  const config: Record<string, unknown> = { ...DEFAULT_CONFIG };
+
+  for (const key of Object.keys(DEFAULT_CONFIG) as (keyof Config)[]) {
+    const fallback = DEFAULT_CONFIG[key];
+    const candidate = raw[key];
+    if (typeof fallback === 'number' ? Number.isFinite(candidate) : typeof candidate === typeof fallback) {
+      config[key] = candidate;
+    }
+  }
+
+  const result = config as unknown as Config;
+  if (!isLayoutId(result.layoutMode)) result.layoutMode = DEFAULT_CONFIG.layoutMode;
+  if (!isOneOf(AUDIO_SOURCES, result.audioSource)) result.audioSource = DEFAULT_CONFIG.audioSource;
+  result.seed = Math.floor(result.seed) >>> 0;
+  result.numStreams = Math.min(MAX_STREAMS, Math.max(1, Math.round(result.numStreams)));
+  if (!isOneOf(PALETTE_MODES, result.paletteMode)) result.paletteMode = DEFAULT_CONFIG.paletteMode;
+  if (!isOneOf(EASING_MODES, result.transitionEasing)) result.transitionEasing = DEFAULT_CONFIG.transitionEasing;
+  result.streamConfigs = sanitizeStreamConfigs(raw.streamConfigs);
+  result.customPalettes = sanitizePalettes(raw.customPalettes);
+  result.effects = sanitizeEffects(raw.effects);
+  result.gravityWells = sanitizeWells(raw.gravityWells);
+  result.streamPaths = sanitizeStreamPaths(raw.streamPaths);
+  result.terminusObjects = sanitizeTerminusObjects(raw.terminusObjects);
+  result.nebula = sanitizeNebula(raw.nebula);
+  result.particles = sanitizeParticles(raw.particles);
+  result.timeline = sanitizeTimeline(raw.timeline);
+  return result;
+};
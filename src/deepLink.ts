@@ -0,0 +1,62 @@
+import { DEFAULT_CONFIG, DEFAULT_STREAM_CONFIG, type Config } from './config';
+import { PRESET_VERSION, parsePreset } from './presets';
+
+// --- Scene Links ---
+// The URL hash carries the Config as base64url JSON, listing only the fields
+// that differ from DEFAULT_CONFIG so links stay short enough for chat.
+
+const HASH_KEY = 'scene';
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const isDefaultStream = (stream: Config['streamConfigs'][number]) =>
+  (Object.keys(DEFAULT_STREAM_CONFIG) as (keyof typeof DEFAULT_STREAM_CONFIG)[]).every(key => stream[key] === DEFAULT_STREAM_CONFIG[key]);
+
+export const encodeScene = (config: Config): string => {
+  const diff: Record<string, unknown> = {};
+  for (const key of Object.keys(config) as (keyof Config)[]) {
+    if (JSON.stringify(config[key]) !== JSON.stringify(DEFAULT_CONFIG[key])) diff[key] = config[key];
+  }
+
+  // Untouched streams become 0 placeholders (trailing ones are dropped);
+  // sanitizeConfig restores both as defaults
+  if (diff.streamConfigs) {
+    const streams: unknown[] = config.streamConfigs.map(stream => isDefaultStream(stream) ? 0 : stream);
+    while (streams.length > 0 && streams[streams.length - 1] === 0) streams.pop();
+    diff.streamConfigs = streams;
+  }
+
+  return toBase64Url(JSON.stringify({ v: PRESET_VERSION, c: diff }));
+};
+
+export const decodeScene = (encoded: string): Config | null => {
+  try {
+    const { v, c } = JSON.parse(fromBase64Url(encoded));
+    return parsePreset({ version: v, config: c }).config;
+  } catch (err) {
+    console.error(`Ignoring unreadable scene link: ${(err as Error).message}`);
+    return null;
+  }
+};
+
+export const readSceneFromUrl = (): Config | null => {
+  const encoded = new URLSearchParams(window.location.hash.slice(1)).get(HASH_KEY);
+  return encoded ? decodeScene(encoded) : null;
+};
+
+// replaceState keeps slider edits from piling up in the browser history
+export const writeSceneToUrl = (config: Config) => {
+  const url = new URL(window.location.href);
+  url.hash = `${HASH_KEY}=${encodeScene(config)}`;
+  window.history.replaceState(window.history.state, '', url);
+};
@@ -0,0 +1,79 @@
+import type { DrawContext } from './drawContext';
+import { OffsetRenderer } from './offsetRenderer';
+import type { BlendMode, Fill, Renderer } from './renderer';
+
+// Works on the page and in the render worker, which has no document
+export const createLayerCanvas = (width: number, height: number, alpha: boolean) => {
+  const canvas = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(width, height) : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d', { alpha });
+  if (!ctx) throw new Error('Canvas has no 2D context');
+  return { canvas, ctx };
+};
+
+// Draws onto a 2D canvas context, or anything shaped like one (see SvgContext)
+export class CanvasRenderer implements Renderer {
+  strokes = 0; // lines drawn since the caller last reset it, for the performance overlay
+  private ctx: DrawContext;
+  private cachedLayer: { key: string; canvas: HTMLCanvasElement | OffscreenCanvas } | null = null;
+
+  constructor(ctx: DrawContext) {
+    this.ctx = ctx;
+  }
+
+  setBlendMode(mode: BlendMode) {
+    this.ctx.globalCompositeOperation = mode === 'additive' ? 'lighter' : 'source-over';
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, fill: Fill) {
+    if (typeof fill === 'string') {
+      this.ctx.fillStyle = fill;
+    } else {
+      const gradient = this.ctx.createRadialGradient(fill.x, fill.y, 0, fill.x, fill.y, fill.radius);
+      fill.stops.forEach(stop => gradient.addColorStop(stop.offset, stop.color));
+      this.ctx.fillStyle = gradient;
+    }
+    this.ctx.fillRect(x, y, width, height);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: string, lineWidth: number) {
+    this.strokes++;
+    this.ctx.beginPath();
+    this.ctx.moveTo(x1, y1);
+    this.ctx.lineTo(x2, y2);
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = lineWidth;
+    this.ctx.stroke();
+  }
+
+  circle(x: number, y: number, radius: number, color: string, alpha: number) {
+    this.ctx.fillStyle = color;
+    this.ctx.globalAlpha = alpha;
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, radius, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.globalAlpha = 1.0;
+  }
+
+  // Canvases keep the last layer as a bitmap at the pixel size it lands on, so
+  // the device pixel ratio or a poster's scale does not blur it; contexts that
+  // cannot draw images (SVG) get the layer's commands in place
+  layer(key: string, x: number, y: number, width: number, height: number, draw: (renderer: Renderer) => void) {
+    if (!('drawImage' in this.ctx)) {
+      draw(new OffsetRenderer(this, x, y));
+      return;
+    }
+    const target = this.ctx as DrawContext & CanvasDrawImage & CanvasTransform;
+    const transform = target.getTransform();
+    const pixelWidth = Math.max(1, Math.ceil(width * Math.hypot(transform.a, transform.b)));
+    const pixelHeight = Math.max(1, Math.ceil(height * Math.hypot(transform.c, transform.d)));
+    let layer = this.cachedLayer;
+    if (layer?.key !== key || layer.canvas.width !== pixelWidth || layer.canvas.height !== pixelHeight) {
+      const { canvas, ctx } = createLayerCanvas(pixelWidth, pixelHeight, true);
+      ctx.scale(pixelWidth / width, pixelHeight / height);
+      draw(new CanvasRenderer(ctx));
+      layer = { key, canvas };
+      this.cachedLayer = layer;
+    }
+    target.drawImage(layer.canvas, x, y, width, height);
+  }
+}
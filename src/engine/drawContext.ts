@@ -0,0 +1,20 @@
+// --- Drawing Surface ---
+// The slice of CanvasRenderingContext2D the Starsilk draw pass relies on. A
+// canvas context satisfies it as-is; other backends (SVG) implement just this.
+
+export type DrawContext = Pick<
+  CanvasRenderingContext2D,
+  | 'globalCompositeOperation'
+  | 'globalAlpha'
+  | 'fillStyle'
+  | 'strokeStyle'
+  | 'lineWidth'
+  | 'beginPath'
+  | 'moveTo'
+  | 'lineTo'
+  | 'arc'
+  | 'stroke'
+  | 'fill'
+  | 'fillRect'
+  | 'createRadialGradient'
+>;
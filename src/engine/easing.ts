@@ -0,0 +1,15 @@
+// --- Easing ---
+// Maps linear progress (0..1) onto a curve for transitions.
+
+export const EASING_MODES = ['linear', 'easeIn', 'easeOut', 'easeInOut'] as const;
+
+export type EasingMode = typeof EASING_MODES[number];
+
+export const ease = (mode: EasingMode, t: number): number => {
+  switch (mode) {
+    case 'easeIn': return t * t * t;
+    case 'easeOut': return 1 - Math.pow(1 - t, 3);
+    case 'easeInOut': return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+    default: return t;
+  }
+};
@@ -0,0 +1,50 @@
+import type { Config } from '../../config';
+import type { PaletteColors } from '../../palettes';
+import type { Random } from '../../random';
+import type { Vec2 } from '../math';
+import type { ParticlePool } from '../particles';
+import type { Renderer } from '../renderer';
+import type { NodeEnvironment, PointerInput, SilkNode } from '../silkNode';
+import type { SilkStream } from '../starsilkEngine';
+import type { ActiveTerminus } from '../terminus';
+
+// --- Effect Definitions ---
+// An interaction effect is a set of optional hooks into the simulation. Any
+// number of effects run side by side, each scaled by its own strength
+// (1 = as designed). Built-ins live next to this file, listed in ./index.ts.
+
+// What an effect sees of the scene while drawing; drawing never changes it
+export interface EffectScene {
+  config: Config;
+  time: number; // ms of simulated time
+  palette: PaletteColors;
+  particles: ParticlePool;
+}
+
+// Stepping may draw random numbers and add particles
+export interface EffectStep extends EffectScene {
+  random: Random;
+  pointers: PointerInput[];
+  termini: ActiveTerminus[]; // objects where the streams end; empty while enableSun is off
+  surgesEnabled: boolean; // whether scheduled surges light their strands
+}
+
+export interface EffectDefinition {
+  id: string; // stored in Config.effects
+  label: string; // shown in the panel
+  // Offset of a node's spring target, before the spring step
+  target?(node: SilkNode, env: NodeEnvironment, strength: number): Vec2;
+  // Changes a node's velocity directly, after the spring step
+  impulse?(node: SilkNode, env: NodeEnvironment, strength: number): void;
+  // Once per stream and step, after the stream's nodes have moved
+  stepStream?(stream: SilkStream, step: EffectStep, strength: number): void;
+  // Once per step, after every stream
+  stepScene?(step: EffectStep, strength: number): void;
+  // Drawn over the silk
+  render?(renderer: Renderer, scene: EffectScene, strength: number): void;
+}
+
+export interface ActiveEffect {
+  effect: EffectDefinition;
+  strength: number;
+}
@@ -0,0 +1,23 @@
+import type { EffectDefinition } from './effectDefinition';
+
+// Wells placed in Config.gravityWells bend the silk's rest positions
+export const gravityEffect: EffectDefinition = {
+  id: 'gravity',
+  label: 'Gravity Wells',
+  target: (node, env, strength) => {
+    const offset = { x: 0, y: 0 };
+    env.wells.forEach(well => {
+      const dx = well.x - node.x;
+      const dy = well.y - node.y;
+      const distSq = dx * dx + dy * dy;
+      if (distSq > 0) {
+        // The radius softens the pull so nodes glide through the centre instead of snapping to it
+        const force = strength * well.sign * well.mass / (distSq + well.radius * well.radius);
+        const dist = Math.sqrt(distSq);
+        offset.x += (dx / dist) * force;
+        offset.y += (dy / dist) * force;
+      }
+    });
+    return offset;
+  },
+};
@@ -0,0 +1,38 @@
+import type { Config } from '../../config';
+import type { ActiveEffect, EffectDefinition } from './effectDefinition';
+import { gravityEffect } from './gravityEffect';
+import { particlesEffect } from './particlesEffect';
+import { repulsionEffect } from './repulsionEffect';
+import { surgesEffect } from './surgesEffect';
+import { vortexEffect } from './vortexEffect';
+
+// --- Effect Registry ---
+// Every interaction effect the app offers, in panel order. A new effect is a
+// module in this folder added to the list; the render worker imports the same
+// registry, so nothing else has to be told about it.
+export const EFFECTS: readonly EffectDefinition[] = [
+  repulsionEffect,
+  vortexEffect,
+  surgesEffect,
+  gravityEffect,
+  particlesEffect,
+];
+
+const byId = new Map(EFFECTS.map(effect => [effect.id, effect]));
+
+export const isEffectId = (value: unknown): value is string => typeof value === 'string' && byId.has(value);
+
+export const getEffect = (id: string): EffectDefinition | undefined => byId.get(id);
+
+// Effects turned down to 0% stay listed in the panel but do nothing
+export const activeEffects = (config: Config): ActiveEffect[] =>
+  config.effects.flatMap(setting => {
+    const effect = getEffect(setting.id);
+    return effect && setting.strength > 0 ? [{ effect, strength: setting.strength / 100 }] : [];
+  });
+
+export const hasEffect = (config: Config, id: string): boolean =>
+  config.effects.some(setting => setting.id === id && setting.strength > 0);
+
+export { SURGE_DURATION, SURGE_LENGTH, SURGE_TRAVEL_TIME } from './surgesEffect';
+export type { ActiveEffect, EffectDefinition, EffectScene, EffectStep } from './effectDefinition';
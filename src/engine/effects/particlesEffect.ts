@@ -0,0 +1,76 @@
+import type { ParticleSettings } from '../../config';
+import { rgba, type PaletteColors } from '../../palettes';
+import type { Vec2 } from '../math';
+import { emissionCount } from '../particles';
+import type { EffectDefinition, EffectStep } from './effectDefinition';
+import { SURGE_TRAVEL_TIME } from './surgesEffect';
+
+const SPREAD = 2; // px per step; fastest sideways speed of a new particle
+const SUN_SPEED = 1.5; // px per step outward from a sun or pulsar
+
+const particleColor = (settings: ParticleSettings, palette: PaletteColors): string =>
+  settings.color || rgba(palette.highlight, 0.8);
+
+// Position along a polyline at t (0 = first node, 1 = last)
+const pointAlong = (nodes: Vec2[], t: number): Vec2 => {
+  const at = Math.min(nodes.length - 1.000001, Math.max(0, t * (nodes.length - 1)));
+  const i = Math.floor(at);
+  const f = at - i;
+  return { x: nodes[i].x + (nodes[i + 1].x - nodes[i].x) * f, y: nodes[i].y + (nodes[i + 1].y - nodes[i].y) * f };
+};
+
+const emit = (step: EffectStep, rate: number, strength: number, at: () => Vec2, velocity: () => Vec2) => {
+  const settings = step.config.particles;
+  const color = particleColor(settings, step.palette);
+  const count = emissionCount(rate * strength, step.random);
+  for (let i = 0; i < count; i++) {
+    const { x, y } = at();
+    const { x: vx, y: vy } = velocity();
+    if (!step.particles.spawn(x, y, vx, vy, color, settings, step.random)) return;
+  }
+};
+
+const scatter = (step: EffectStep) => () => ({ x: (step.random() - 0.5) * SPREAD * 2, y: (step.random() - 0.5) * SPREAD * 2 });
+
+// Sparks from any of several emitters (Config.particles), pooled under a budget
+export const particlesEffect: EffectDefinition = {
+  id: 'particles',
+  label: 'Particles',
+  stepStream: (stream, step, strength) => {
+    const { emitters } = step.config.particles;
+    const nodes = stream.nodes;
+
+    // Strands disintegrate in the last fifth of their final segment
+    emit(step, emitters.terminus, strength, () => pointAlong(nodes, 1 - step.random() * 0.2 / (nodes.length - 1)), scatter(step));
+    emit(step, emitters.stream, strength, () => pointAlong(nodes, step.random()), scatter(step));
+
+    // Lit strands shed along their length, travelling surges at their front
+    if (step.surgesEnabled && stream.localTime > stream.surgeTime) {
+      emit(step, emitters.surges, strength, () => pointAlong(nodes, step.random()), scatter(step));
+    }
+    stream.travellingSurges.forEach(start => {
+      const front = (step.time - start) / SURGE_TRAVEL_TIME;
+      if (front <= 1) emit(step, emitters.surges, strength, () => pointAlong(nodes, front), scatter(step));
+    });
+  },
+  stepScene: (step, strength) => {
+    const { emitters } = step.config.particles;
+    step.pointers.forEach(pointer => emit(step, emitters.pointer * pointer.pressure, strength, () => pointer, scatter(step)));
+
+    // Black holes only take in
+    step.termini.forEach(object => {
+      if (object.type === 'blackHole') return;
+      emit(step, emitters.sun, strength, () => object, () => {
+        const angle = step.random() * Math.PI * 2;
+        const speed = SUN_SPEED * (0.5 + step.random());
+        return { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+      });
+    });
+  },
+  render: (renderer, scene) => {
+    renderer.setBlendMode('additive');
+    scene.particles.forEach(p => {
+      renderer.circle(p.x, p.y, p.size, p.color, 1 - (p.life / p.maxLife));
+    });
+  },
+};
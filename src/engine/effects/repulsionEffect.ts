@@ -0,0 +1,21 @@
+import type { EffectDefinition } from './effectDefinition';
+
+const REPULSION_RADIUS = 200; // px
+
+// Every pointer pushes nearby silk away, hardest right underneath it
+export const repulsionEffect: EffectDefinition = {
+  id: 'repulsion',
+  label: 'Standard Repulsion',
+  impulse: (node, env, strength) => {
+    env.pointers.forEach(pointer => {
+      const dx = node.x - pointer.x;
+      const dy = node.y - pointer.y;
+      const dist = Math.hypot(dx, dy);
+      if (dist < REPULSION_RADIUS && dist > 0) {
+        const force = Math.pow((REPULSION_RADIUS - dist) / REPULSION_RADIUS, 2) * pointer.pressure * strength;
+        node.vx += (dx / dist) * force * 1.5;
+        node.vy += (dy / dist) * force * 1.5;
+      }
+    });
+  },
+};
@@ -0,0 +1,18 @@
+import type { EffectDefinition } from './effectDefinition';
+
+export const SURGE_DURATION = 800; // ms of stream time a strand stays lit
+// Clicked surges travel instead of lighting the whole strand
+export const SURGE_TRAVEL_TIME = 1500; // ms from origin to terminus
+export const SURGE_LENGTH = 0.15; // share of the stream lit behind the surge front
+
+// Strands light up and race at random intervals; stronger surges come more often
+export const surgesEffect: EffectDefinition = {
+  id: 'surges',
+  label: 'Data-Packet Surges',
+  stepStream: (stream, step, strength) => {
+    // Also picks up strands that were left waiting for a beat
+    if (stream.surgeTime === Infinity || stream.localTime > stream.surgeTime + SURGE_DURATION) {
+      stream.surgeTime = stream.localTime + (2000 + step.random() * 8000) / Math.max(0.1, strength);
+    }
+  },
+};
@@ -0,0 +1,23 @@
+import type { EffectDefinition } from './effectDefinition';
+
+// Every pointer pulls silk in and swirls it around
+export const vortexEffect: EffectDefinition = {
+  id: 'vortex',
+  label: 'Interactive Vortex',
+  impulse: (node, env, strength) => {
+    env.pointers.forEach(pointer => {
+      const dx = node.x - pointer.x;
+      const dy = node.y - pointer.y;
+      const dist = Math.hypot(dx, dy);
+      if (dist < 400 && dist > 10) {
+        const force = (1000 / dist) * pointer.pressure * strength;
+        node.vx -= (dx / dist) * force * 0.05;
+        node.vy -= (dy / dist) * force * 0.05;
+
+        // Add swirl
+        node.vx += (dy / dist) * force * 0.05;
+        node.vy -= (dx / dist) * force * 0.05;
+      }
+    });
+  },
+};
@@ -0,0 +1,43 @@
+import type { GravityWell } from '../config';
+import type { Vec2 } from './math';
+
+// --- Gravity Wells ---
+// Config stores where wells are anchored; this resolves where they actually are
+// on a given step. Wells are placed once per step and shared by every node.
+
+export interface ActiveWell {
+  x: number;
+  y: number;
+  anchorX: number;
+  anchorY: number;
+  mass: number;
+  radius: number;
+  sign: number; // 1 attracts, -1 repels
+}
+
+const ORBIT_RADIUS = 120; // px around the anchor
+const ORBIT_SPEED = 0.0005; // rad per ms of simulated time
+const FOLLOW_EASE = 0.1; // share of the distance to the pointer closed each step
+
+export const placeWells = (wells: GravityWell[], previous: ActiveWell[], time: number, pointer: Vec2 | null, width: number, height: number): ActiveWell[] =>
+  wells.map((well, i) => {
+    const anchorX = (well.x / 100) * width;
+    const anchorY = (well.y / 100) * height;
+    let x = anchorX;
+    let y = anchorY;
+
+    if (well.motion === 'orbit') {
+      // Spread orbiting wells around the circle so they never stack
+      const angle = time * ORBIT_SPEED + (i / wells.length) * Math.PI * 2;
+      x += Math.cos(angle) * ORBIT_RADIUS;
+      y += Math.sin(angle) * ORBIT_RADIUS;
+    } else if (well.motion === 'pointer') {
+      // Chases the pointer and drifts home once it leaves the canvas
+      const from = previous[i] ?? { x: anchorX, y: anchorY };
+      const target = pointer ?? { x: anchorX, y: anchorY };
+      x = from.x + (target.x - from.x) * FOLLOW_EASE;
+      y = from.y + (target.y - from.y) * FOLLOW_EASE;
+    }
+
+    return { x, y, anchorX, anchorY, mass: well.mass, radius: well.radius, sign: well.polarity === 'repel' ? -1 : 1 };
+  });
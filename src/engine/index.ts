@@ -0,0 +1,24 @@
+// Framework-free Starsilk engine: simulation, clock and render backends
+export { PATH_HANDLE_RADIUS, StarsilkEngine, WELL_HANDLE_RADIUS, type SilkStream } from './starsilkEngine';
+export { cameraTarget, easeCamera, spawnShootingStar, starPosition, type ShootingStar, type Star } from './starfield';
+export { placeWells, type ActiveWell } from './gravityWells';
+export { drawNebula, generateNebula, nebulaDriftStep, nebulaMargin, nebulaOffset, type NebulaPuff } from './nebula';
+export { blackHolePull, drawTerminusBack, drawTerminusFront, placeTermini, type ActiveTerminus } from './terminus';
+export { ParticlePool, emissionCount, type Particle } from './particles';
+export { SHOCKWAVE_LIFETIME, shockwavePush, shockwaveRadius, shockwaveStrength, type Shockwave } from './shockwaves';
+export { layoutStreams, terminusPoint, type StreamLayout } from './layout';
+export { DEFAULT_RENDER_STYLE, LAYOUTS, getLayout, isLayoutId, tracePath, type LayoutContext, type LayoutDefinition, type LayoutRenderStyle } from './layouts';
+export { EFFECTS, SURGE_DURATION, SURGE_LENGTH, SURGE_TRAVEL_TIME, activeEffects, getEffect, hasEffect, isEffectId, type ActiveEffect, type EffectDefinition, type EffectScene, type EffectStep } from './effects';
+export { EASING_MODES, ease, type EasingMode } from './easing';
+export { SilkNode, type NodeEnvironment, type PointerInput } from './silkNode';
+export { SimulationClock, FIXED_STEP } from './simulationClock';
+export type { BlendMode, Fill, GradientStop, RadialGradient, Renderer } from './renderer';
+export type { DrawContext } from './drawContext';
+export { CanvasRenderer, createLayerCanvas } from './canvasRenderer';
+export { OffsetRenderer } from './offsetRenderer';
+export { RecordingRenderer, type DrawCommand } from './recordingRenderer';
+export { catmullRom, distanceToSegment, getNormal, normalize, type Vec2 } from './math';
+export { SceneLoop, type SceneStats } from './sceneLoop';
+export { DEFAULT_FRAME_BUDGET, QUALITY_MODES, QUALITY_SETTINGS, QUALITY_TIERS, QualityGovernor, type QualityMode, type QualitySettings, type QualityTier } from './quality';
+export { createSceneHost, type SceneHost } from './sceneHost';
+export type { SceneMessage, SceneReply } from './sceneMessages';
@@ -0,0 +1,30 @@
+import type { Config } from '../config';
+import type { Vec2 } from './math';
+import { getLayout, type LayoutContext } from './layouts';
+
+// --- Stream Layout ---
+// Where each stream's nodes rest for a given config and view size. Used both to
+// build a fresh scene and as the target of a morph between layouts.
+
+export interface StreamLayout {
+  anchors: Vec2[];
+  phaseOffsetX: number;
+  phaseOffsetY: number;
+}
+
+const layoutContext = (cfg: Config, width: number, height: number, nodesPerStream: number): LayoutContext =>
+  ({ cfg, width, height, streamCount: cfg.numStreams, nodesPerStream });
+
+// Where the streams end up, e.g. for the terminus sun
+export const terminusPoint = (cfg: Config, width: number, height: number): Vec2 =>
+  getLayout(cfg.layoutMode).terminus(layoutContext(cfg, width, height, 0));
+
+export const layoutStreams = (cfg: Config, width: number, height: number, nodesPerStream: number): StreamLayout[] => {
+  const layout = getLayout(cfg.layoutMode);
+  const ctx = layoutContext(cfg, width, height, nodesPerStream);
+  return Array.from({ length: ctx.streamCount }, (_, s) => ({
+    anchors: layout.anchors(ctx, s),
+    phaseOffsetX: (s / ctx.streamCount) * Math.PI * 4,
+    phaseOffsetY: (s / ctx.streamCount) * Math.PI * 2 + 1,
+  }));
+};
@@ -0,0 +1,19 @@
+import { fanOffset, floatingDrift, straightAnchors, type LayoutDefinition } from './layoutDefinition';
+
+// Origins circle around the edge and every stream flows into the centre
+export const convergenceLayout: LayoutDefinition = {
+  id: 'convergence',
+  label: 'Orbital Convergence',
+  anchors: ({ width, height, streamCount, nodesPerStream }, stream) => {
+    const angle = (stream / streamCount) * Math.PI * 2;
+    return straightAnchors(
+      { x: width / 2 + Math.cos(angle) * width * 0.6, y: height / 2 + Math.sin(angle) * height * 0.6 },
+      { x: width / 2, y: height / 2 },
+      fanOffset(stream, streamCount, 30),
+      nodesPerStream,
+    );
+  },
+  terminus: ({ width, height }) => ({ x: width / 2, y: height / 2 }),
+  drift: floatingDrift,
+  stiffness: 0.02,
+};
@@ -0,0 +1,16 @@
+import { floatingDrift, samplePath, viewPoint, type LayoutDefinition } from './layoutDefinition';
+
+// Each stream follows the spline drawn for it on the canvas
+export const customLayout: LayoutDefinition = {
+  id: 'custom',
+  label: 'Custom Paths',
+  anchors: ({ cfg, width, height, nodesPerStream }, stream) => samplePath(cfg.streamPaths[stream], width, height, nodesPerStream),
+  terminus: ({ cfg, width, height }) => viewPoint(cfg.streamPaths[0][cfg.streamPaths[0].length - 1], width, height),
+  // Drawn paths route silk around things, so they only sway a little
+  drift: (node, time, index, audioBump) => {
+    const drift = floatingDrift(node, time, index, audioBump);
+    return { x: drift.x * 0.3, y: drift.y * 0.3 };
+  },
+  stiffness: 0.02,
+  editablePaths: true,
+};
@@ -0,0 +1,16 @@
+import { fanOffset, floatingDrift, straightAnchors, viewPoint, type LayoutDefinition } from './layoutDefinition';
+
+// Streams fan out along a line from the start to the end point
+export const defaultLayout: LayoutDefinition = {
+  id: 'default',
+  label: 'Default Drift',
+  anchors: ({ cfg, width, height, streamCount, nodesPerStream }, stream) => straightAnchors(
+    viewPoint({ x: cfg.startX, y: cfg.startY }, width, height),
+    viewPoint({ x: cfg.endX, y: cfg.endY }, width, height),
+    fanOffset(stream, streamCount, 30), // 30px spacing
+    nodesPerStream,
+  ),
+  terminus: ({ cfg, width, height }) => viewPoint({ x: cfg.endX, y: cfg.endY }, width, height),
+  drift: floatingDrift,
+  stiffness: 0.02,
+};
@@ -0,0 +1,22 @@
+import { straightAnchors, viewPoint, type LayoutDefinition } from './layoutDefinition';
+
+// Pairs of strands twist around a shared centre line
+export const dnaLayout: LayoutDefinition = {
+  id: 'dna',
+  label: 'Spiral DNA Helix',
+  anchors: ({ cfg, width, height, nodesPerStream }) => straightAnchors(
+    viewPoint({ x: cfg.startX, y: cfg.startY }, width, height),
+    viewPoint({ x: cfg.endX, y: cfg.endY }, width, height),
+    0, // DNA twists around exact center
+    nodesPerStream,
+  ),
+  terminus: ({ cfg, width, height }) => viewPoint({ x: cfg.endX, y: cfg.endY }, width, height),
+  // Rigorous sine wave wrapping, odd streams half a turn behind
+  drift: (node, time, index, audioBump) => {
+    const dnaPhase = (index * 0.2) - (time * 0.002) + (node.streamIndex % 2 === 0 ? 0 : Math.PI);
+    const amplitude = 60 + audioBump;
+    return { x: Math.cos(dnaPhase) * amplitude, y: Math.sin(dnaPhase) * amplitude };
+  },
+  stiffness: 0.02,
+  render: { fixedWidth: 20 },
+};
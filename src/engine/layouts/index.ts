@@ -0,0 +1,29 @@
+import { convergenceLayout } from './convergenceLayout';
+import { customLayout } from './customLayout';
+import { defaultLayout } from './defaultLayout';
+import { dnaLayout } from './dnaLayout';
+import type { LayoutDefinition } from './layoutDefinition';
+import { riverLayout } from './riverLayout';
+import { treeLayout } from './treeLayout';
+
+// --- Layout Registry ---
+// Every layout the app offers, in dropdown order. A new layout is a module in
+// this folder added to the list; the render worker imports the same registry,
+// so nothing else has to be told about it.
+export const LAYOUTS: readonly LayoutDefinition[] = [
+  defaultLayout,
+  treeLayout,
+  convergenceLayout,
+  dnaLayout,
+  riverLayout,
+  customLayout,
+];
+
+const byId = new Map(LAYOUTS.map(layout => [layout.id, layout]));
+
+export const isLayoutId = (value: unknown): value is string => typeof value === 'string' && byId.has(value);
+
+// Unknown ids (a link from a build with more layouts) fall back to the first layout
+export const getLayout = (id: string): LayoutDefinition => byId.get(id) ?? LAYOUTS[0];
+
+export { DEFAULT_RENDER_STYLE, tracePath, type LayoutContext, type LayoutDefinition, type LayoutRenderStyle } from './layoutDefinition';
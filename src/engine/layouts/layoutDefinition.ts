@@ -0,0 +1,113 @@
+import type { Config, PathPoint } from '../../config';
+import { catmullRom, getNormal, normalize, type Vec2 } from '../math';
+import type { SilkNode } from '../silkNode';
+
+// --- Layout Definitions ---
+// A layout decides where streams rest, how their nodes drift around those rest
+// positions, and how the ribbons are styled. Each built-in lives in its own
+// module next to this one and is listed in the registry (./index.ts).
+
+export interface LayoutContext {
+  cfg: Config;
+  width: number;
+  height: number;
+  streamCount: number;
+  nodesPerStream: number;
+}
+
+// Ribbon styling; unset values follow the stream count like the default layout
+export interface LayoutRenderStyle {
+  flowRate: number; // slice scroll speed per ms of stream time
+  ribbonWidth: number | null; // px before per-stream and audio scaling
+  fixedWidth: number | null; // px after all scaling, overriding it
+  alpha: number | null; // base opacity of every stream
+  edgeWidth: number; // px; outline stroke
+}
+
+export interface LayoutDefinition {
+  id: string; // stored in Config.layoutMode
+  label: string; // shown in the layout dropdown
+  // Rest positions of one stream's nodes, origin first
+  anchors(ctx: LayoutContext, stream: number): Vec2[];
+  // Where the terminus sun sits
+  terminus(ctx: LayoutContext): Vec2;
+  // Offset from the rest position at a moment of stream time
+  drift(node: SilkNode, time: number, index: number, audioBump: number): Vec2;
+  stiffness: number; // share of the distance to the drifted target added to velocity per step
+  render?: Partial<LayoutRenderStyle>;
+  editablePaths?: boolean; // anchors follow Config.streamPaths, which are edited on the canvas
+}
+
+export const DEFAULT_RENDER_STYLE: LayoutRenderStyle = {
+  flowRate: 0.005,
+  ribbonWidth: null,
+  fixedWidth: null,
+  alpha: null,
+  edgeWidth: 3.5,
+};
+
+// --- Shared Helpers ---
+
+export const viewPoint = (point: PathPoint, width: number, height: number): Vec2 =>
+  ({ x: (point.x / 100) * width, y: (point.y / 100) * height });
+
+// Offset across the stream direction that fans streams out around the middle one
+export const fanOffset = (stream: number, streamCount: number, spacing: number) =>
+  (stream - Math.floor(streamCount / 2)) * spacing;
+
+export const straightAnchors = (from: Vec2, to: Vec2, offset: number, count: number): Vec2[] => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const normal = getNormal(normalize({ x: dx, y: dy }));
+  return Array.from({ length: count }, (_, i) => {
+    const t = i / (count - 1);
+    return { x: from.x + t * dx + normal.x * offset, y: from.y + t * dy + normal.y * offset };
+  });
+};
+
+// The slow two-frequency float shared by most layouts
+export const floatingDrift = (node: SilkNode, time: number, index: number, audioBump: number): Vec2 => ({
+  x: Math.sin(time * 0.0005 + index * 0.1 + node.phaseOffsetX) * (80 + audioBump) + Math.cos(time * 0.0002 - index * 0.05 + node.phaseOffsetY) * 40,
+  y: Math.cos(time * 0.0007 + index * 0.15 + node.phaseOffsetY) * (120 + audioBump) + Math.sin(time * 0.0003 + index * 0.08 + node.phaseOffsetX) * 60,
+});
+
+const PATH_SAMPLES_PER_SEGMENT = 16;
+
+// Dense polyline through a drawn path's control points, in px
+export const tracePath = (path: PathPoint[], width: number, height: number): Vec2[] => {
+  const points = path.map(point => viewPoint(point, width, height));
+  const traced: Vec2[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[Math.max(0, i - 1)];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[Math.min(points.length - 1, i + 2)];
+    for (let j = 0; j < PATH_SAMPLES_PER_SEGMENT; j++) traced.push(catmullRom(p0, p1, p2, p3, j / PATH_SAMPLES_PER_SEGMENT));
+  }
+  traced.push(points[points.length - 1]);
+  return traced;
+};
+
+// Spaced evenly by arc length, so nodes do not bunch up where control points sit close together
+export const samplePath = (path: PathPoint[], width: number, height: number, count: number): Vec2[] => {
+  const traced = tracePath(path, width, height);
+  const lengths = [0];
+  for (let i = 1; i < traced.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(traced[i].x - traced[i - 1].x, traced[i].y - traced[i - 1].y));
+  }
+  const total = lengths[lengths.length - 1];
+
+  const samples: Vec2[] = [];
+  let j = 1;
+  for (let i = 0; i < count; i++) {
+    const target = (i / (count - 1)) * total;
+    while (j < traced.length - 1 && lengths[j] < target) j++;
+    const span = lengths[j] - lengths[j - 1];
+    const t = span > 0 ? (target - lengths[j - 1]) / span : 0;
+    samples.push({
+      x: traced[j - 1].x + (traced[j].x - traced[j - 1].x) * t,
+      y: traced[j - 1].y + (traced[j].y - traced[j - 1].y) * t,
+    });
+  }
+  return samples;
+};
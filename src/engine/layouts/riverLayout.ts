@@ -0,0 +1,20 @@
+import { fanOffset, straightAnchors, viewPoint, type LayoutDefinition } from './layoutDefinition';
+
+// Wide, tightly packed ribbons with a very flat, slow undulation
+export const riverLayout: LayoutDefinition = {
+  id: 'river',
+  label: 'The River Styx',
+  anchors: ({ cfg, width, height, streamCount, nodesPerStream }, stream) => straightAnchors(
+    viewPoint({ x: cfg.startX, y: cfg.startY }, width, height),
+    viewPoint({ x: cfg.endX, y: cfg.endY }, width, height),
+    fanOffset(stream, streamCount, 10), // Tight spacing
+    nodesPerStream,
+  ),
+  terminus: ({ cfg, width, height }) => viewPoint({ x: cfg.endX, y: cfg.endY }, width, height),
+  drift: (node, time, index, audioBump) => ({
+    x: Math.sin(time * 0.0002 + index * 0.05 + node.phaseOffsetX) * 20,
+    y: Math.cos(time * 0.0003 + index * 0.05 + node.phaseOffsetY) * 30 + audioBump,
+  }),
+  stiffness: 0.005,
+  render: { flowRate: 0.001, ribbonWidth: 80, alpha: 0.5, edgeWidth: 6 },
+};
@@ -0,0 +1,16 @@
+import { fanOffset, floatingDrift, straightAnchors, type LayoutDefinition } from './layoutDefinition';
+
+// Branches rise from the bottom centre and spread across the top edge
+export const treeLayout: LayoutDefinition = {
+  id: 'tree',
+  label: 'Tree of Souls',
+  anchors: ({ width, height, streamCount, nodesPerStream }, stream) => straightAnchors(
+    { x: width / 2, y: height * 1.1 }, // Bottom center
+    { x: (stream / Math.max(1, streamCount - 1)) * width, y: height * -0.1 }, // Top edge spread
+    fanOffset(stream, streamCount, 30),
+    nodesPerStream,
+  ),
+  terminus: ({ width, height }) => ({ x: width / 2, y: height * 0.2 }), // In the crown, where the branches spread
+  drift: floatingDrift,
+  stiffness: 0.02,
+};
@@ -0,0 +1,39 @@
+// --- Vector Utilities ---
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+export const normalize = (v: Vec2): Vec2 => {
+  const len = Math.hypot(v.x, v.y);
+  if (len === 0) return { x: 0, y: 0 };
+  return { x: v.x / len, y: v.y / len };
+};
+
+export const getNormal = (v: Vec2): Vec2 => {
+  return { x: -v.y, y: v.x };
+};
+
+// Catmull-Rom spline interpolation
+export const catmullRom = (p0: Vec2, p1: Vec2, p2: Vec2, p3: Vec2, t: number): Vec2 => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  const f0 = -0.5 * t3 + t2 - 0.5 * t;
+  const f1 = 1.5 * t3 - 2.5 * t2 + 1.0;
+  const f2 = -1.5 * t3 + 2.0 * t2 + 0.5 * t;
+  const f3 = 0.5 * t3 - 0.5 * t2;
+
+  return {
+    x: p0.x * f0 + p1.x * f1 + p2.x * f2 + p3.x * f3,
+    y: p0.y * f0 + p1.y * f1 + p2.y * f2 + p3.y * f3,
+  };
+};
+
+export const distanceToSegment = (p: Vec2, a: Vec2, b: Vec2): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.min(1, Math.max(0, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+};
@@ -0,0 +1,107 @@
+import type { NebulaSettings } from '../config';
+import { mixRgb, rgba, sampleStops, type Rgb } from '../palettes';
+import { createRandom, type Random } from '../random';
+import type { Vec2 } from './math';
+import type { Renderer } from './renderer';
+import { FIXED_STEP } from './simulationClock';
+
+// --- Nebula ---
+// Clouds of soft gradient puffs scattered by seeded noise. A nebula only
+// changes with its seed, settings, colours and view size, so renderers draw it
+// once into a cached layer; drift and parallax just move that layer around.
+
+export interface NebulaPuff {
+  x: number; // px in the layer
+  y: number;
+  radius: number;
+  color: Rgb;
+  alpha: number;
+}
+
+const PUFFS_PER_CLOUD = 40; // at 100% density
+const CLOUD_RADIUS = 0.35; // share of the larger layer side at 100% scale
+const PUFF_ALPHA = 0.3; // at 100% density, where the noise is thickest
+const NOISE_SCALE = 3; // noise cells across the layer
+const DRIFT_SPEED = 0.00003; // rad per ms of simulated time at 100%
+const CAMERA_DEPTH = 0.15; // share of the nearest star layer's parallax; the nebula is furthest away
+
+// Seeded value noise on a lattice, smoothed between cells
+const valueNoise = (random: Random) => {
+  const size = 64;
+  const lattice = Array.from({ length: size * size }, () => random());
+  const at = (x: number, y: number) => lattice[(((y % size) + size) % size) * size + (((x % size) + size) % size)];
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+  return (x: number, y: number): number => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const tx = smooth(x - x0);
+    const ty = smooth(y - y0);
+    const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * tx;
+    const bottom = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * tx;
+    return top + (bottom - top) * ty;
+  };
+};
+
+// Three octaves of noise, 0 to 1
+const fractalNoise = (noise: (x: number, y: number) => number) => (x: number, y: number): number =>
+  (noise(x, y) * 4 + noise(x * 2, y * 2) * 2 + noise(x * 4, y * 4)) / 7;
+
+// Puffs for a width × height layer; colors must not be empty
+export const generateNebula = (seed: number, settings: NebulaSettings, colors: Rgb[], width: number, height: number): NebulaPuff[] => {
+  const random = createRandom(seed);
+  const noise = fractalNoise(valueNoise(random));
+  const side = Math.max(width, height);
+  const puffs: NebulaPuff[] = [];
+  const puffCount = Math.round(PUFFS_PER_CLOUD * (settings.density / 100));
+  const cloudRadius = CLOUD_RADIUS * (settings.scale / 100) * side;
+
+  for (let c = 0; c < settings.clouds; c++) {
+    const cx = (0.1 + random() * 0.8) * width;
+    const cy = (0.1 + random() * 0.8) * height;
+    const base = sampleStops(colors, random());
+    const accent = sampleStops(colors, random());
+
+    for (let p = 0; p < puffCount; p++) {
+      // Roughly gaussian spread, denser towards the cloud's heart
+      const angle = random() * Math.PI * 2;
+      const distance = cloudRadius * (random() + random() + random()) / 2;
+      const x = cx + Math.cos(angle) * distance;
+      const y = cy + Math.sin(angle) * distance;
+      const thickness = noise((x / side) * NOISE_SCALE, (y / side) * NOISE_SCALE);
+      if (thickness < 0.35) continue; // gaps give the cloud its wisps
+
+      puffs.push({
+        x, y,
+        radius: cloudRadius * (0.2 + random() * 0.4) * thickness,
+        color: mixRgb(base, accent, noise((x / side) * NOISE_SCALE * 2 + 17, (y / side) * NOISE_SCALE * 2)),
+        alpha: PUFF_ALPHA * (settings.density / 100) * thickness,
+      });
+    }
+  }
+  return puffs;
+};
+
+export const drawNebula = (renderer: Renderer, puffs: NebulaPuff[]) => {
+  renderer.setBlendMode('additive');
+  puffs.forEach(puff => {
+    renderer.fillRect(puff.x - puff.radius, puff.y - puff.radius, puff.radius * 2, puff.radius * 2, {
+      x: puff.x, y: puff.y, radius: puff.radius,
+      stops: [{ offset: 0, color: rgba(puff.color, puff.alpha) }, { offset: 1, color: 'rgba(0,0,0,0)' }],
+    });
+  });
+};
+
+// The layer overhangs the view by this much on every side, so it can move without showing an edge
+export const nebulaMargin = (width: number, height: number): number => Math.round(Math.max(width, height) * 0.05);
+
+// Advance of the drift's phase per step
+export const nebulaDriftStep = (drift: number): number => FIXED_STEP * DRIFT_SPEED * (drift / 100);
+
+// Offset of the layer from its resting place, kept inside the margin
+export const nebulaOffset = (phase: number, camera: Vec2, margin: number): Vec2 => {
+  const clamp = (value: number) => Math.min(margin, Math.max(-margin, value));
+  return {
+    x: clamp(Math.sin(phase) * margin * 0.7 + camera.x * CAMERA_DEPTH),
+    y: clamp(Math.sin(phase * 0.6) * margin * 0.4 + camera.y * CAMERA_DEPTH),
+  };
+};
@@ -0,0 +1,36 @@
+import type { BlendMode, Fill, Renderer } from './renderer';
+
+// Passes every command on with its coordinates moved by (dx, dy), for
+// backends that draw a layer in place instead of caching it
+export class OffsetRenderer implements Renderer {
+  private target: Renderer;
+  private dx: number;
+  private dy: number;
+
+  constructor(target: Renderer, dx: number, dy: number) {
+    this.target = target;
+    this.dx = dx;
+    this.dy = dy;
+  }
+
+  setBlendMode(mode: BlendMode) {
+    this.target.setBlendMode(mode);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, fill: Fill) {
+    const moved = typeof fill === 'string' ? fill : { ...fill, x: fill.x + this.dx, y: fill.y + this.dy };
+    this.target.fillRect(x + this.dx, y + this.dy, width, height, moved);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: string, lineWidth: number) {
+    this.target.line(x1 + this.dx, y1 + this.dy, x2 + this.dx, y2 + this.dy, color, lineWidth);
+  }
+
+  circle(x: number, y: number, radius: number, color: string, alpha: number) {
+    this.target.circle(x + this.dx, y + this.dy, radius, color, alpha);
+  }
+
+  layer(key: string, x: number, y: number, width: number, height: number, draw: (renderer: Renderer) => void) {
+    this.target.layer(key, x + this.dx, y + this.dy, width, height, draw);
+  }
+}
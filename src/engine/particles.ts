@@ -0,0 +1,131 @@
+import type { ParticleSettings } from '../config';
+import type { Random } from '../random';
+import type { ActiveWell } from './gravityWells';
+import type { PointerInput } from './silkNode';
+import { FIXED_STEP } from './simulationClock';
+
+// --- Particles ---
+// A fixed pool of particle objects: spawning reuses a dead slot and dying swaps
+// the particle behind the living ones, so long sessions never allocate and the
+// budget is a hard cap. Emitters live in the 'particles' effect.
+
+export interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number; // steps lived
+  maxLife: number; // steps
+  size: number;
+  color: string;
+}
+
+const WELL_FORCE = 0.02; // share of a well's silk offset applied as acceleration
+const POINTER_RADIUS = 200; // px
+const POINTER_FORCE = 0.5; // px per step² right under a pointer
+const LIFETIME_SPREAD = 0.4; // each particle lives ±40% of the average
+const SIZE_SPREAD = 0.5;
+
+export class ParticlePool {
+  private slots: Particle[] = [];
+  count = 0; // the first `count` slots are alive
+
+  constructor(budget: number) {
+    this.setBudget(budget);
+  }
+
+  get budget(): number {
+    return this.slots.length;
+  }
+
+  // A smaller budget drops the newest particles
+  setBudget(budget: number) {
+    while (this.slots.length < budget) this.slots.push({ x: 0, y: 0, vx: 0, vy: 0, life: 0, maxLife: 0, size: 0, color: '' });
+    this.slots.length = budget;
+    this.count = Math.min(this.count, budget);
+  }
+
+  clear() {
+    this.count = 0;
+  }
+
+  // Lifetime and size vary around the settings' averages; false once the budget is used up
+  spawn(x: number, y: number, vx: number, vy: number, color: string, settings: ParticleSettings, random: Random): boolean {
+    if (this.count >= this.slots.length) return false;
+    const p = this.slots[this.count++];
+    p.x = x;
+    p.y = y;
+    p.vx = vx;
+    p.vy = vy;
+    p.life = 0;
+    p.maxLife = (settings.lifetime / FIXED_STEP) * (1 + (random() * 2 - 1) * LIFETIME_SPREAD);
+    p.size = settings.size * (1 + (random() * 2 - 1) * SIZE_SPREAD);
+    p.color = color;
+    return true;
+  }
+
+  forEach(draw: (particle: Particle) => void) {
+    for (let i = 0; i < this.count; i++) draw(this.slots[i]);
+  }
+
+  // Moves every particle by one step and retires the ones past their lifetime
+  step(settings: ParticleSettings, wells: ActiveWell[], pointers: PointerInput[]) {
+    const damping = 1 - settings.drag / 100;
+    const wellForce = (settings.wellForce / 100) * WELL_FORCE;
+    const pointerForce = (settings.pointerForce / 100) * POINTER_FORCE;
+
+    let i = 0;
+    while (i < this.count) {
+      const p = this.slots[i];
+
+      if (wellForce !== 0) {
+        wells.forEach(well => {
+          const dx = well.x - p.x;
+          const dy = well.y - p.y;
+          const distSq = dx * dx + dy * dy;
+          if (distSq === 0) return;
+          const force = wellForce * well.sign * well.mass / (distSq + well.radius * well.radius);
+          const dist = Math.sqrt(distSq);
+          p.vx += (dx / dist) * force;
+          p.vy += (dy / dist) * force;
+        });
+      }
+
+      if (pointerForce !== 0) {
+        pointers.forEach(pointer => {
+          const dx = p.x - pointer.x;
+          const dy = p.y - pointer.y;
+          const dist = Math.hypot(dx, dy);
+          if (dist >= POINTER_RADIUS || dist === 0) return;
+          const force = Math.pow((POINTER_RADIUS - dist) / POINTER_RADIUS, 2) * pointer.pressure * pointerForce;
+          p.vx += (dx / dist) * force;
+          p.vy += (dy / dist) * force;
+        });
+      }
+
+      p.x += p.vx;
+      p.y += p.vy;
+      p.vx *= damping;
+      p.vy *= damping;
+      p.life++;
+
+      if (p.life >= p.maxLife) {
+        // Swap the dead particle with the last living one; slot i is checked again
+        this.count--;
+        this.slots[i] = this.slots[this.count];
+        this.slots[this.count] = p;
+      } else {
+        i++;
+      }
+    }
+  }
+}
+
+// Whole particles to emit this step for a rate in particles per second; the
+// fraction left over is emitted by chance so low rates still average out
+export const emissionCount = (rate: number, random: Random): number => {
+  if (rate <= 0) return 0;
+  const expected = rate * (FIXED_STEP / 1000);
+  const whole = Math.floor(expected);
+  return whole + (random() < expected - whole ? 1 : 0);
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { QualityGovernor } from './quality';
+
+// Feeds the governor `seconds` worth of frames at a fixed cost and refresh interval
+const run = (governor: QualityGovernor, work: number, interval: number, seconds: number) => {
+  for (let t = 0; t < seconds * 1000; t += interval) governor.update(work, interval, 25);
+};
+
+describe('QualityGovernor', () => {
+  it('keeps full detail on a slow display when frames are cheap', () => {
+    const governor = new QualityGovernor();
+    run(governor, 4, 1000 / 30, 10);
+    expect(governor.tier).toBe('high');
+  });
+
+  it('drops detail while frames cost more than the budget', () => {
+    const governor = new QualityGovernor();
+    run(governor, 40, 40, 1.5);
+    expect(governor.tier).toBe('medium');
+    run(governor, 40, 40, 1.5);
+    expect(governor.tier).toBe('low');
+  });
+
+  it('restores detail once there is headroom', () => {
+    const governor = new QualityGovernor();
+    run(governor, 40, 40, 1.5);
+    run(governor, 4, 1000 / 60, 6);
+    expect(governor.tier).toBe('high');
+  });
+});
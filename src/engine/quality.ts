@@ -0,0 +1,92 @@
+// --- Render Quality ---
+// How much detail the live view draws. The simulation itself never changes
+// with quality, so a scene looks the same on every tier apart from its
+// resolution, and exports always render at the full default.
+
+export const QUALITY_TIERS = ['low', 'medium', 'high'] as const;
+export const QUALITY_MODES = ['auto', ...QUALITY_TIERS] as const;
+
+export type QualityTier = typeof QUALITY_TIERS[number];
+export type QualityMode = typeof QUALITY_MODES[number]; // 'auto' picks a tier from the work per frame
+
+export interface QualitySettings {
+  segmentsPerNode: number; // spline points drawn between two silk nodes
+  starFraction: number; // share of the starfield drawn
+  sliceStride: number; // every nth core slice is drawn
+}
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: { segmentsPerNode: 4, starFraction: 0.3, sliceStride: 3 },
+  medium: { segmentsPerNode: 6, starFraction: 0.6, sliceStride: 2 },
+  high: { segmentsPerNode: 10, starFraction: 1, sliceStride: 1 },
+};
+
+export const DEFAULT_FRAME_BUDGET = 25; // ms of stepping and drawing per frame, i.e. room for 40 fps
+
+const FRAME_SMOOTHING = 0.1; // weight of the newest frame in the running average
+const DOWNGRADE_AFTER = 1000; // ms over budget before detail is dropped
+const UPGRADE_AFTER = 5000; // ms with headroom before detail is restored
+const MAX_UPGRADE_AFTER = 60000;
+const HEADROOM = 0.7; // share of the budget a tier must stay under to step up
+const STALLED_FRAME = 250; // ms; longer gaps are a hidden tab or a breakpoint, not the scene's cost
+
+// Picks a tier for 'auto' quality from the time each frame spends stepping and
+// drawing. The interval between frames would also count the display's refresh
+// rate, so a 30 Hz screen or a throttled tab would always look over budget.
+// Each drop back right after a step up doubles the wait before the next step
+// up, so a scene that sits on the edge of the budget settles instead of
+// flickering between tiers.
+export class QualityGovernor {
+  tier: QualityTier = 'high';
+  private averageWork: number | null = null;
+  private overBudgetFor = 0;
+  private headroomFor = 0;
+  private upgradeAfter = UPGRADE_AFTER;
+  private justUpgraded = false;
+
+  // Call once per frame with the ms spent on it and the real time since the
+  // previous frame; returns true when the tier changed
+  update(work: number, frameInterval: number, budget: number): boolean {
+    if (frameInterval > STALLED_FRAME) return false;
+    this.averageWork = this.averageWork === null ? work : this.averageWork + (work - this.averageWork) * FRAME_SMOOTHING;
+    const index = QUALITY_TIERS.indexOf(this.tier);
+
+    if (this.averageWork > budget) {
+      this.overBudgetFor += frameInterval;
+      this.headroomFor = 0;
+      if (this.overBudgetFor >= DOWNGRADE_AFTER && index > 0) {
+        if (this.justUpgraded) this.upgradeAfter = Math.min(MAX_UPGRADE_AFTER, this.upgradeAfter * 2);
+        this.justUpgraded = false;
+        return this.switchTo(QUALITY_TIERS[index - 1]);
+      }
+    } else if (this.averageWork < budget * HEADROOM) {
+      this.headroomFor += frameInterval;
+      this.overBudgetFor = 0;
+      if (this.headroomFor >= this.upgradeAfter && index < QUALITY_TIERS.length - 1) {
+        this.justUpgraded = true;
+        return this.switchTo(QUALITY_TIERS[index + 1]);
+      }
+    } else {
+      this.overBudgetFor = 0;
+      this.headroomFor = 0;
+    }
+    // A tier that holds for a full wait has proven itself
+    if (this.justUpgraded && this.headroomFor >= this.upgradeAfter) this.justUpgraded = false;
+    return false;
+  }
+
+  // Starts over from full detail, e.g. when 'auto' is picked again
+  reset() {
+    this.switchTo('high');
+    this.upgradeAfter = UPGRADE_AFTER;
+    this.justUpgraded = false;
+  }
+
+  private switchTo(tier: QualityTier): boolean {
+    this.tier = tier;
+    this.averageWork = null;
+    this.overBudgetFor = 0;
+    this.headroomFor = 0;
+    return true;
+  }
+}
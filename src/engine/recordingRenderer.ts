@@ -0,0 +1,44 @@
+import { OffsetRenderer } from './offsetRenderer';
+import type { BlendMode, Fill, Renderer } from './renderer';
+
+export type DrawCommand =
+  | { type: 'blend'; mode: BlendMode }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill: Fill }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; color: string; lineWidth: number }
+  | { type: 'circle'; x: number; y: number; radius: number; color: string; alpha: number }
+  | { type: 'layer'; key: string; x: number; y: number; width: number; height: number };
+
+// Keeps every command instead of drawing it, so frames can be inspected and compared
+export class RecordingRenderer implements Renderer {
+  readonly commands: DrawCommand[] = [];
+
+  setBlendMode(mode: BlendMode) {
+    this.commands.push({ type: 'blend', mode });
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, fill: Fill) {
+    this.commands.push({ type: 'rect', x, y, width, height, fill });
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: string, lineWidth: number) {
+    this.commands.push({ type: 'line', x1, y1, x2, y2, color, lineWidth });
+  }
+
+  circle(x: number, y: number, radius: number, color: string, alpha: number) {
+    this.commands.push({ type: 'circle', x, y, radius, color, alpha });
+  }
+
+  // The layer's own commands follow its marker, already moved into place
+  layer(key: string, x: number, y: number, width: number, height: number, draw: (renderer: Renderer) => void) {
+    this.commands.push({ type: 'layer', key, x, y, width, height });
+    draw(new OffsetRenderer(this, x, y));
+  }
+
+  count(type: DrawCommand['type']): number {
+    return this.commands.filter(command => command.type === type).length;
+  }
+
+  clear() {
+    this.commands.length = 0;
+  }
+}
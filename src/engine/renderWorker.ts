@@ -0,0 +1,22 @@
+import { SceneLoop } from './sceneLoop';
+import { handleSceneMessage, type SceneMessage, type SceneReply } from './sceneMessages';
+
+// --- Render Worker ---
+// Owns the transferred canvas and the whole simulation; the main thread only
+// posts input (config, size, pointer, audio levels) and asks for snapshots.
+
+let loop: SceneLoop | null = null;
+
+const reply = (message: SceneReply) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<SceneMessage>) => {
+  const message = e.data;
+
+  if (message.type === 'init') {
+    loop = new SceneLoop(message.canvas, message.config);
+    loop.start();
+    reply({ type: 'ready' });
+    return;
+  }
+  if (loop) handleSceneMessage(loop, message, reply);
+};
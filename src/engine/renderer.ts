@@ -0,0 +1,30 @@
+// --- Renderer Interface ---
+// The engine describes each frame as a flat list of primitive draw commands.
+// Backends decide what those mean: pixels, SVG elements or a recorded list.
+
+export type BlendMode = 'normal' | 'additive';
+
+export interface GradientStop {
+  offset: number;
+  color: string;
+}
+
+// Circular gradient fading out from a single center
+export interface RadialGradient {
+  x: number;
+  y: number;
+  radius: number;
+  stops: GradientStop[];
+}
+
+export type Fill = string | RadialGradient;
+
+export interface Renderer {
+  setBlendMode(mode: BlendMode): void;
+  fillRect(x: number, y: number, width: number, height: number, fill: Fill): void;
+  line(x1: number, y1: number, x2: number, y2: number, color: string, lineWidth: number): void;
+  circle(x: number, y: number, radius: number, color: string, alpha: number): void;
+  // Content that rarely changes, drawn by `draw` from (0, 0) and placed at (x, y).
+  // Backends may keep it as a bitmap and skip `draw` while `key` stays the same.
+  layer(key: string, x: number, y: number, width: number, height: number, draw: (renderer: Renderer) => void): void;
+}
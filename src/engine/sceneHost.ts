@@ -0,0 +1,195 @@
+import type { AudioLevels } from '../audioReactor';
+import type { Config } from '../config';
+import type { QualityMode } from './quality';
+import { SceneLoop, type SceneStats } from './sceneLoop';
+import { handleSceneMessage, type SceneMessage, type SceneReply } from './sceneMessages';
+
+// --- Scene Hosts ---
+// The UI talks to a running scene only through this interface, so it does not
+// care whether the loop runs on the main thread or inside the render worker.
+export interface SceneHost {
+  setConfig(config: Config): void;
+  crossfadeTo(config: Config, duration: number): void; // restarts the scene from config, blending over duration ms
+  resize(width: number, height: number, dpr: number): void;
+  setPointer(id: number, x: number, y: number, pressure: number): void;
+  clearPointer(id: number): void;
+  clearPointers(): void;
+  press(x: number, y: number): void;
+  setAudioInput(levels: AudioLevels): void;
+  setEditMarkers(visible: boolean): void; // well and path handles
+  setQuality(mode: QualityMode, budget: number): void; // budget: ms per frame 'auto' aims for
+  pause(): void;
+  resume(): void;
+  step(): void;
+  resetNodes(): void;
+  exportPoster(width: number, height: number): Promise<Blob>;
+  exportSvg(): Promise<string>;
+  getTime(): Promise<number>; // ms of simulated time since the scene (re)started
+  getStats(): Promise<SceneStats>;
+  dispose(): void;
+}
+
+class LocalSceneHost implements SceneHost {
+  private loop: SceneLoop;
+
+  constructor(canvas: HTMLCanvasElement, config: Config) {
+    this.loop = new SceneLoop(canvas, config);
+    this.loop.start();
+  }
+
+  setConfig(config: Config) { this.loop.setConfig(config); }
+  crossfadeTo(config: Config, duration: number) { this.loop.crossfadeTo(config, duration); }
+  resize(width: number, height: number, dpr: number) { this.loop.resize(width, height, dpr); }
+  setPointer(id: number, x: number, y: number, pressure: number) { this.loop.setPointer(id, x, y, pressure); }
+  clearPointer(id: number) { this.loop.clearPointer(id); }
+  clearPointers() { this.loop.clearPointers(); }
+  press(x: number, y: number) { this.loop.press(x, y); }
+  setAudioInput(levels: AudioLevels) { this.loop.setAudioInput(levels); }
+  setEditMarkers(visible: boolean) { this.loop.showEditMarkers = visible; }
+  setQuality(mode: QualityMode, budget: number) { this.loop.setQuality(mode, budget); }
+  pause() { this.loop.clock.pause(); }
+  resume() { this.loop.clock.resume(); }
+  step() { this.loop.clock.step(); }
+  resetNodes() { this.loop.activeEngine.resetNodes(); }
+  exportPoster(width: number, height: number) { return this.loop.exportPoster(width, height); }
+  exportSvg() { return Promise.resolve(this.loop.exportSvg()); }
+  getTime() { return Promise.resolve(this.loop.activeEngine.time); }
+  getStats() { return Promise.resolve(this.loop.getStats()); }
+  dispose() { this.loop.stop(); }
+}
+
+interface PendingRequest {
+  resolve: (reply: SceneReply) => void;
+  reject: (error: Error) => void;
+}
+
+// A worker that fails before its scene is running (its module does not load,
+// the transferred canvas has no 2D context) leaves the canvas unusable here, so
+// the host swaps in a fresh canvas, runs the loop on the main thread and replays
+// everything posted so far. Errors after that are only logged.
+class WorkerSceneHost implements SceneHost {
+  private worker: Worker;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private startup: SceneMessage[] | null = []; // posted before 'ready', kept for a fallback
+  private fallback: { loop: SceneLoop; canvas: HTMLCanvasElement } | null = null;
+
+  constructor(worker: Worker, canvas: HTMLCanvasElement, config: Config) {
+    this.worker = worker;
+    this.worker.onmessage = (e: MessageEvent<SceneReply>) => this.receive(e.data);
+    this.worker.onerror = e => {
+      if (this.startup) this.fallBack(canvas, config, e.message);
+      else console.error(`Error in render worker: ${e.message}`);
+    };
+    const offscreen = canvas.transferControlToOffscreen();
+    this.worker.postMessage({ type: 'init', canvas: offscreen, config } satisfies SceneMessage, [offscreen]);
+  }
+
+  private receive(reply: SceneReply) {
+    if (reply.type === 'ready') {
+      this.startup = null;
+      return;
+    }
+    const request = this.pending.get(reply.id);
+    if (!request) return;
+    this.pending.delete(reply.id);
+    if (reply.type === 'error') request.reject(new Error(reply.message));
+    else request.resolve(reply);
+  }
+
+  private fallBack(canvas: HTMLCanvasElement, config: Config, reason: string) {
+    console.error(`Error starting render worker, rendering on the main thread: ${reason}`);
+    this.worker.terminate();
+    const fresh = canvas.cloneNode() as HTMLCanvasElement;
+    canvas.replaceWith(fresh);
+    const loop = new SceneLoop(fresh, config);
+    this.fallback = { loop, canvas: fresh };
+    this.startup?.forEach(message => handleSceneMessage(loop, message, reply => this.receive(reply)));
+    this.startup = null;
+    loop.start();
+  }
+
+  private post(message: SceneMessage) {
+    if (this.fallback) {
+      handleSceneMessage(this.fallback.loop, message, reply => this.receive(reply));
+      return;
+    }
+    this.startup?.push(message);
+    this.worker.postMessage(message);
+  }
+
+  private request(message: SceneMessage & { id: number }): Promise<SceneReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject });
+      this.post(message);
+    });
+  }
+
+  setConfig(config: Config) { this.post({ type: 'config', config }); }
+  crossfadeTo(config: Config, duration: number) { this.post({ type: 'crossfade', config, duration }); }
+  resize(width: number, height: number, dpr: number) { this.post({ type: 'resize', width, height, dpr }); }
+  setPointer(id: number, x: number, y: number, pressure: number) { this.post({ type: 'pointer', id, x, y, pressure }); }
+  clearPointer(id: number) { this.post({ type: 'clearPointer', id }); }
+  clearPointers() { this.post({ type: 'clearPointers' }); }
+  press(x: number, y: number) { this.post({ type: 'press', x, y }); }
+  setAudioInput(levels: AudioLevels) { this.post({ type: 'audio', levels }); }
+  setEditMarkers(visible: boolean) { this.post({ type: 'editMarkers', visible }); }
+  setQuality(mode: QualityMode, budget: number) { this.post({ type: 'quality', mode, budget }); }
+  pause() { this.post({ type: 'pause' }); }
+  resume() { this.post({ type: 'resume' }); }
+  step() { this.post({ type: 'step' }); }
+  resetNodes() { this.post({ type: 'resetNodes' }); }
+
+  async exportPoster(width: number, height: number): Promise<Blob> {
+    const reply = await this.request({ type: 'poster', id: this.nextId++, width, height });
+    if (reply.type !== 'poster') throw new Error('Render worker sent an unexpected reply');
+    return reply.blob;
+  }
+
+  async exportSvg(): Promise<string> {
+    const reply = await this.request({ type: 'svg', id: this.nextId++ });
+    if (reply.type !== 'svg') throw new Error('Render worker sent an unexpected reply');
+    return reply.svg;
+  }
+
+  async getTime(): Promise<number> {
+    const reply = await this.request({ type: 'time', id: this.nextId++ });
+    if (reply.type !== 'time') throw new Error('Render worker sent an unexpected reply');
+    return reply.time;
+  }
+
+  async getStats(): Promise<SceneStats> {
+    const reply = await this.request({ type: 'stats', id: this.nextId++ });
+    if (reply.type !== 'stats') throw new Error('Render worker sent an unexpected reply');
+    return reply.stats;
+  }
+
+  dispose() {
+    this.worker.terminate();
+    this.fallback?.loop.stop();
+    this.fallback?.canvas.remove();
+    this.pending.forEach(request => request.reject(new Error('Scene was disposed')));
+    this.pending.clear();
+  }
+}
+
+const supportsOffscreenCanvas = () =>
+  typeof OffscreenCanvas !== 'undefined' && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+// Renders in a worker when the browser can hand the canvas over, otherwise on
+// the main thread. A canvas can only be transferred once, so callers must pass
+// a fresh element for every host, sized by CSS: if the worker fails to start,
+// the host replaces the element with a copy of it.
+export const createSceneHost = (canvas: HTMLCanvasElement, config: Config): SceneHost => {
+  if (supportsOffscreenCanvas()) {
+    let worker: Worker | null = null;
+    try {
+      worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+      return new WorkerSceneHost(worker, canvas, config);
+    } catch (err) {
+      worker?.terminate();
+      console.error(`Error starting render worker, rendering on the main thread: ${(err as Error).message}`);
+    }
+  }
+  return new LocalSceneHost(canvas, config);
+};
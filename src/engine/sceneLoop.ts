@@ -0,0 +1,257 @@
+import type { AudioLevels } from '../audioReactor';
+import type { Config } from '../config';
+import { renderStill, type ExportContext } from '../exporter';
+import { SvgContext } from '../svgContext';
+import { CanvasRenderer, createLayerCanvas } from './canvasRenderer';
+import { DEFAULT_FRAME_BUDGET, QUALITY_SETTINGS, QualityGovernor, type QualityMode, type QualityTier } from './quality';
+import type { Renderer } from './renderer';
+import { SimulationClock } from './simulationClock';
+import { StarsilkEngine } from './starsilkEngine';
+
+// --- Scene Loop ---
+// Drives an engine on its own animation frames and draws it into a canvas. The
+// same loop runs on the main thread or, with an OffscreenCanvas, in the render
+// worker; it only needs requestAnimationFrame and a 2D context.
+
+// A second scene drawn into its own layer and blended over the current one
+interface Crossfade {
+  engine: StarsilkEngine;
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  ctx: ExportContext;
+  renderer: CanvasRenderer;
+  start: number | null; // frame timestamp of the first blended frame
+  duration: number; // ms
+}
+
+// Averages for the performance overlay
+export interface SceneStats {
+  fps: number;
+  frameTime: number; // ms spent stepping and drawing each frame
+  strokes: number; // lines drawn per frame
+  particles: number;
+  quality: QualityTier;
+}
+
+const STATS_SMOOTHING = 0.05; // weight of the newest frame in the averages
+
+// Exports draw at full detail whatever tier the live view has dropped to
+const renderFullQuality = (engine: StarsilkEngine, renderer: Renderer) => {
+  const live = engine.quality;
+  engine.quality = QUALITY_SETTINGS.high;
+  try {
+    engine.render(renderer);
+  } finally {
+    engine.quality = live;
+  }
+};
+
+export class SceneLoop {
+  engine: StarsilkEngine; // replaced when a crossfade completes
+  readonly clock = new SimulationClock();
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
+  private ctx: ExportContext;
+  private renderer: CanvasRenderer;
+  private frameId: number | null = null;
+  private dpr = 1;
+  private crossfade: Crossfade | null = null;
+  private qualityMode: QualityMode = 'auto';
+  private frameBudget = DEFAULT_FRAME_BUDGET;
+  private governor = new QualityGovernor();
+  private lastFrame: number | null = null;
+  private averageInterval = 0;
+  private averageWork = 0;
+  private strokes = 0;
+  showEditMarkers = false;
+
+  constructor(canvas: HTMLCanvasElement | OffscreenCanvas, config: Config) {
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) throw new Error('Canvas has no 2D context');
+    this.canvas = canvas;
+    this.ctx = ctx;
+    this.renderer = new CanvasRenderer(ctx);
+    this.engine = new StarsilkEngine(config);
+  }
+
+  start() {
+    if (this.frameId === null) this.frameId = requestAnimationFrame(this.frame);
+  }
+
+  stop() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.lastFrame = null;
+  }
+
+  // A fixed tier, or 'auto' to trade detail for frame rate whenever stepping and drawing a frame takes longer than budget ms
+  setQuality(mode: QualityMode, budget: number) {
+    if (mode === 'auto' && this.qualityMode !== 'auto') this.governor.reset();
+    this.qualityMode = mode;
+    this.frameBudget = budget;
+    this.applyQuality();
+  }
+
+  get qualityTier(): QualityTier {
+    return this.qualityMode === 'auto' ? this.governor.tier : this.qualityMode;
+  }
+
+  getStats(): SceneStats {
+    return {
+      fps: this.averageInterval > 0 ? 1000 / this.averageInterval : 0,
+      frameTime: this.averageWork,
+      strokes: this.strokes,
+      particles: this.engine.particles.count + (this.crossfade?.engine.particles.count ?? 0),
+      quality: this.qualityTier,
+    };
+  }
+
+  private applyQuality() {
+    const quality = QUALITY_SETTINGS[this.qualityTier];
+    this.engine.quality = quality;
+    if (this.crossfade) this.crossfade.engine.quality = quality;
+  }
+
+  // Width and height are logical (CSS) pixels; the backing store is scaled by dpr
+  resize(width: number, height: number, dpr: number) {
+    this.dpr = dpr;
+    this.canvas.width = width * dpr;
+    this.canvas.height = height * dpr;
+    this.ctx.scale(dpr, dpr);
+    this.engine.resize(width, height);
+
+    const fade = this.crossfade;
+    if (fade) {
+      fade.canvas.width = width * dpr;
+      fade.canvas.height = height * dpr;
+      fade.ctx.scale(dpr, dpr);
+      fade.engine.resize(width, height);
+    }
+  }
+
+  // The scene being faded in during a crossfade, else the current one. Settings,
+  // restarts, the clock and exports all belong to it, so they survive the swap
+  get activeEngine(): StarsilkEngine {
+    return this.crossfade?.engine ?? this.engine;
+  }
+
+  setConfig(config: Config) {
+    this.activeEngine.setConfig(config);
+  }
+
+  // Starts a fresh scene from `config` and blends it in over `duration` ms of
+  // real time while the current scene keeps animating underneath. A scene that
+  // is still fading in is cut to, so the newest one always takes over.
+  crossfadeTo(config: Config, duration: number) {
+    const engine = new StarsilkEngine(config);
+    engine.resize(this.engine.width, this.engine.height);
+    engine.quality = QUALITY_SETTINGS[this.qualityTier];
+    if (this.crossfade) this.engine = this.crossfade.engine;
+    this.releaseCrossfade();
+
+    if (duration <= 0) {
+      this.engine = engine;
+      return;
+    }
+    const { canvas, ctx } = createLayerCanvas(this.canvas.width, this.canvas.height, false);
+    ctx.scale(this.dpr, this.dpr);
+    this.crossfade = { engine, canvas, ctx, renderer: new CanvasRenderer(ctx), start: null, duration };
+  }
+
+  // Input reaches both scenes during a crossfade, so the incoming one takes over with it
+  setPointer(id: number, x: number, y: number, pressure: number) {
+    this.engine.setPointer(id, x, y, pressure);
+    this.crossfade?.engine.setPointer(id, x, y, pressure);
+  }
+
+  clearPointer(id: number) {
+    this.engine.clearPointer(id);
+    this.crossfade?.engine.clearPointer(id);
+  }
+
+  clearPointers() {
+    this.engine.clearPointers();
+    this.crossfade?.engine.clearPointers();
+  }
+
+  press(x: number, y: number) {
+    this.engine.press(x, y);
+    this.crossfade?.engine.press(x, y);
+  }
+
+  // A paused frame keeps the levels it was paused with
+  setAudioInput(levels: AudioLevels) {
+    if (this.clock.paused) return;
+    this.engine.setAudioInput(levels);
+    this.crossfade?.engine.setAudioInput(levels);
+  }
+
+  // Posters redraw the live scene as-is, scaled to cover the requested size
+  exportPoster(posterWidth: number, posterHeight: number): Promise<Blob> {
+    const engine = this.activeEngine;
+    const { width, height } = engine;
+    const scale = Math.max(posterWidth / width, posterHeight / height);
+    return renderStill(posterWidth, posterHeight, ctx => {
+      ctx.setTransform(scale, 0, 0, scale, (posterWidth - width * scale) / 2, (posterHeight - height * scale) / 2);
+      renderFullQuality(engine, new CanvasRenderer(ctx));
+    });
+  }
+
+  // Vector snapshot of the live frame in logical (CSS pixel) coordinates
+  exportSvg(): string {
+    const engine = this.activeEngine;
+    const svg = new SvgContext(engine.width, engine.height);
+    renderFullQuality(engine, new CanvasRenderer(svg));
+    return svg.toString();
+  }
+
+  private releaseCrossfade() {
+    if (!this.crossfade) return;
+    this.crossfade.canvas.width = 0;
+    this.crossfade.canvas.height = 0;
+    this.crossfade = null;
+  }
+
+  // The next frame is requested first, so a frame that throws does not stop the loop
+  private frame = (now: number) => {
+    this.frameId = requestAnimationFrame(this.frame);
+    const workStart = performance.now();
+    this.renderer.strokes = 0;
+    const fade = this.crossfade;
+    const steps = this.clock.advance(now, this.activeEngine.config.timeScale / 100);
+    this.engine.advance(steps);
+    this.engine.render(this.renderer);
+
+    if (fade) {
+      fade.start ??= now;
+      const progress = Math.min(1, (now - fade.start) / fade.duration);
+      fade.engine.advance(steps);
+      fade.renderer.strokes = 0;
+      fade.engine.render(fade.renderer);
+      this.renderer.strokes += fade.renderer.strokes;
+
+      this.ctx.save();
+      this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+      this.ctx.globalAlpha = progress;
+      this.ctx.drawImage(fade.canvas, 0, 0);
+      this.ctx.restore();
+
+      if (progress >= 1) {
+        this.engine = fade.engine;
+        this.releaseCrossfade();
+      }
+    }
+
+    if (this.showEditMarkers) this.activeEngine.renderEditMarkers(this.renderer);
+    this.measureFrame(now, performance.now() - workStart);
+  };
+
+  private measureFrame(now: number, work: number) {
+    this.strokes = this.renderer.strokes;
+    this.averageWork += (work - this.averageWork) * STATS_SMOOTHING;
+    if (this.lastFrame !== null) {
+      const interval = now - this.lastFrame;
+      this.averageInterval = this.averageInterval === 0 ? interval : this.averageInterval + (interval - this.averageInterval) * STATS_SMOOTHING;
+      if (this.qualityMode === 'auto' && this.governor.update(work, interval, this.frameBudget)) this.applyQuality();
+    }
+    this.lastFrame = now;
+  }
+}
@@ -0,0 +1,78 @@
+import type { AudioLevels } from '../audioReactor';
+import type { Config } from '../config';
+import type { QualityMode } from './quality';
+import type { SceneLoop, SceneStats } from './sceneLoop';
+
+// --- Scene Messages ---
+// What the main thread posts to a scene running elsewhere, and how a loop
+// carries it out. The render worker handles them, and so does a worker host
+// that had to fall back to the main thread.
+
+// Main thread → worker
+export type SceneMessage =
+  | { type: 'init'; canvas: OffscreenCanvas; config: Config }
+  | { type: 'config'; config: Config }
+  | { type: 'crossfade'; config: Config; duration: number }
+  | { type: 'resize'; width: number; height: number; dpr: number }
+  | { type: 'pointer'; id: number; x: number; y: number; pressure: number }
+  | { type: 'clearPointer'; id: number }
+  | { type: 'clearPointers' }
+  | { type: 'press'; x: number; y: number }
+  | { type: 'audio'; levels: AudioLevels }
+  | { type: 'editMarkers'; visible: boolean }
+  | { type: 'quality'; mode: QualityMode; budget: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'step' }
+  | { type: 'resetNodes' }
+  | { type: 'poster'; id: number; width: number; height: number }
+  | { type: 'svg'; id: number }
+  | { type: 'time'; id: number }
+  | { type: 'stats'; id: number };
+
+// Worker → main thread: 'ready' once the scene runs, the rest answer a request by id
+export type SceneReply =
+  | { type: 'ready' }
+  | { type: 'poster'; id: number; blob: Blob }
+  | { type: 'svg'; id: number; svg: string }
+  | { type: 'time'; id: number; time: number }
+  | { type: 'stats'; id: number; stats: SceneStats }
+  | { type: 'error'; id: number; message: string };
+
+// Everything but 'init', which creates the loop
+export const handleSceneMessage = (loop: SceneLoop, message: SceneMessage, reply: (message: SceneReply) => void) => {
+  const replyWithError = (id: number, err: unknown) => {
+    reply({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  };
+
+  switch (message.type) {
+    case 'config': loop.setConfig(message.config); break;
+    case 'crossfade': loop.crossfadeTo(message.config, message.duration); break;
+    case 'resize': loop.resize(message.width, message.height, message.dpr); break;
+    case 'pointer': loop.setPointer(message.id, message.x, message.y, message.pressure); break;
+    case 'clearPointer': loop.clearPointer(message.id); break;
+    case 'clearPointers': loop.clearPointers(); break;
+    case 'press': loop.press(message.x, message.y); break;
+    case 'audio': loop.setAudioInput(message.levels); break;
+    case 'editMarkers': loop.showEditMarkers = message.visible; break;
+    case 'quality': loop.setQuality(message.mode, message.budget); break;
+    case 'pause': loop.clock.pause(); break;
+    case 'resume': loop.clock.resume(); break;
+    case 'step': loop.clock.step(); break;
+    case 'resetNodes': loop.activeEngine.resetNodes(); break;
+    case 'poster':
+      loop.exportPoster(message.width, message.height)
+        .then(blob => reply({ type: 'poster', id: message.id, blob }))
+        .catch(err => replyWithError(message.id, err));
+      break;
+    case 'svg':
+      try {
+        reply({ type: 'svg', id: message.id, svg: loop.exportSvg() });
+      } catch (err) {
+        replyWithError(message.id, err);
+      }
+      break;
+    case 'time': reply({ type: 'time', id: message.id, time: loop.activeEngine.time }); break;
+    case 'stats': reply({ type: 'stats', id: message.id, stats: loop.getStats() }); break;
+  }
+};
@@ -0,0 +1,33 @@
+import type { Vec2 } from './math';
+
+// --- Shockwaves ---
+// A click or tap sends a ring outward from the point. Nodes inside the moving
+// band are shoved away from its centre, more gently as the ring weakens.
+
+export interface Shockwave {
+  x: number;
+  y: number;
+  age: number; // ms of simulated time
+}
+
+export const SHOCKWAVE_LIFETIME = 1200; // ms
+const SHOCKWAVE_SPEED = 0.8; // px per ms of simulated time
+const SHOCKWAVE_THICKNESS = 60; // px; width of the band that pushes
+const SHOCKWAVE_FORCE = 3; // px per step at the centre of a fresh band
+
+export const shockwaveRadius = (wave: Shockwave): number => wave.age * SHOCKWAVE_SPEED;
+
+// 1 when the wave is emitted, 0 when it dies out
+export const shockwaveStrength = (wave: Shockwave): number => Math.max(0, 1 - wave.age / SHOCKWAVE_LIFETIME);
+
+// Velocity change for a node at (x, y)
+export const shockwavePush = (wave: Shockwave, x: number, y: number): Vec2 => {
+  const dx = x - wave.x;
+  const dy = y - wave.y;
+  const dist = Math.hypot(dx, dy);
+  const offset = Math.abs(dist - shockwaveRadius(wave));
+  if (dist === 0 || offset >= SHOCKWAVE_THICKNESS) return { x: 0, y: 0 };
+
+  const force = SHOCKWAVE_FORCE * shockwaveStrength(wave) * (1 - offset / SHOCKWAVE_THICKNESS);
+  return { x: (dx / dist) * force, y: (dy / dist) * force };
+};
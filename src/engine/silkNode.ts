@@ -0,0 +1,90 @@
+import type { AudioLevels } from '../audioReactor';
+import type { Config } from '../config';
+import type { ActiveEffect } from './effects';
+import type { ActiveWell } from './gravityWells';
+import type { LayoutDefinition } from './layouts';
+import type { Vec2 } from './math';
+import { shockwavePush, type Shockwave } from './shockwaves';
+import { blackHolePull, type ActiveTerminus } from './terminus';
+
+// A mouse, pen or finger on the canvas; pressure scales its force, 1 being a plain mouse
+export interface PointerInput extends Vec2 {
+  pressure: number;
+}
+
+// Everything outside the node that shapes a single physics step
+export interface NodeEnvironment {
+  config: Config;
+  layout: LayoutDefinition; // the one config.layoutMode names
+  effects: ActiveEffect[]; // the ones config.effects turns on, in order
+  audio: AudioLevels;
+  pointers: PointerInput[];
+  wells: ActiveWell[];
+  shockwaves: Shockwave[];
+  termini: ActiveTerminus[]; // empty while enableSun is off
+}
+
+export class SilkNode {
+  x: number;
+  y: number;
+  ox: number;
+  oy: number;
+  vx: number = 0;
+  vy: number = 0;
+  phaseOffsetX: number;
+  phaseOffsetY: number;
+  streamIndex: number;
+
+  constructor(x: number, y: number, phaseOffsetX: number, phaseOffsetY: number, streamIndex: number) {
+    this.x = x;
+    this.y = y;
+    this.ox = x;
+    this.oy = y;
+    this.phaseOffsetX = phaseOffsetX;
+    this.phaseOffsetY = phaseOffsetY;
+    this.streamIndex = streamIndex;
+  }
+
+  update(time: number, index: number, env: NodeEnvironment) {
+    const { config, audio, layout } = env;
+
+    const audioBump = config.audioReactive ? audio.bass * 20 * (config.audioDrift / 100) : 0;
+    const drift = layout.drift(this, time, index, audioBump);
+
+    let targetX = this.ox + drift.x;
+    let targetY = this.oy + drift.y;
+
+    // Effects that bend the rest position, e.g. gravity wells
+    env.effects.forEach(({ effect, strength }) => {
+      if (!effect.target) return;
+      const offset = effect.target(this, env, strength);
+      targetX += offset.x;
+      targetY += offset.y;
+    });
+
+    // Black holes draw in the ends of the streams they gather
+    const pull = blackHolePull(env.termini, this.streamIndex, targetX, targetY);
+    targetX += pull.x;
+    targetY += pull.y;
+
+    // Spring towards target
+    this.vx += (targetX - this.x) * layout.stiffness;
+    this.vy += (targetY - this.y) * layout.stiffness;
+
+    // Effects that act on velocity, e.g. pointer repulsion or vortex
+    env.effects.forEach(({ effect, strength }) => effect.impulse?.(this, env, strength));
+
+    // Shockwaves shove nodes outward as their ring passes
+    env.shockwaves.forEach(wave => {
+      const push = shockwavePush(wave, this.x, this.y);
+      this.vx += push.x;
+      this.vy += push.y;
+    });
+
+    // Apply velocity and dampening
+    this.x += this.vx;
+    this.y += this.vy;
+    this.vx *= 0.90;
+    this.vy *= 0.90;
+  }
+}
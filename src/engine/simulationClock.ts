@@ -0,0 +1,44 @@
+// --- Simulation Clock ---
+// Turns real frame timestamps into a whole number of fixed physics steps, so
+// the silk moves at the same speed on 60 Hz, 120 Hz and dropping displays.
+
+export const FIXED_STEP = 16; // ms of simulated time per physics step
+const MAX_FRAME_DELTA = 100; // ms; a stalled tab resumes instead of fast-forwarding
+
+export class SimulationClock {
+  private lastNow: number | null = null;
+  private accumulator = 0;
+  private pendingSteps = 0;
+  private isPaused = false;
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  pause() {
+    this.isPaused = true;
+  }
+
+  resume() {
+    this.isPaused = false;
+  }
+
+  // Queues single steps; used to nudge a paused frame forward
+  step(count = 1) {
+    this.pendingSteps += count;
+  }
+
+  // Call once per animation frame; returns how many fixed steps to simulate
+  advance(now: number, timeScale: number): number {
+    const delta = this.lastNow === null ? 0 : Math.min(now - this.lastNow, MAX_FRAME_DELTA);
+    this.lastNow = now;
+
+    if (!this.isPaused) this.accumulator += delta * Math.max(0, timeScale);
+    const steps = Math.floor(this.accumulator / FIXED_STEP);
+    this.accumulator -= steps * FIXED_STEP;
+
+    const queued = this.pendingSteps;
+    this.pendingSteps = 0;
+    return steps + queued;
+  }
+}
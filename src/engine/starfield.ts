@@ -0,0 +1,72 @@
+import type { Random } from '../random';
+import type { Vec2 } from './math';
+import { FIXED_STEP } from './simulationClock';
+
+// --- Starfield ---
+// Stars sit on three depth layers. A camera offset, eased towards the pointer
+// and an optional slow drift, shifts each layer by its depth, so near stars
+// slide further than far ones. Stars wrap around the view and never run out.
+
+export interface Star {
+  x: number;
+  y: number;
+  z: number; // depth layer (1 to 3), 3 nearest
+  phase: number;
+}
+
+export interface ShootingStar {
+  x: number; // head position
+  y: number;
+  vx: number; // px per step
+  vy: number;
+  age: number; // steps
+  life: number; // steps
+}
+
+const PARALLAX_SHIFT = 40; // px the nearest layer slides at 100% with the pointer at the edge
+const DRIFT_RADIUS = 80; // px of camera travel at any drift speed
+const DRIFT_SPEED = 0.0001; // rad per ms of simulated time at 100%
+const CAMERA_EASE = 0.03; // share of the distance to the target closed each step
+export const SHOOTING_STAR_TRAIL = 8; // steps of travel the trail covers
+
+// Where the camera is heading: away from the pointer, plus the drift's point on a slow figure-of-eight
+export const cameraTarget = (parallax: number, driftPhase: number, pointer: Vec2 | null, width: number, height: number): Vec2 => {
+  const target = { x: Math.sin(driftPhase) * DRIFT_RADIUS, y: Math.sin(driftPhase * 2) * DRIFT_RADIUS * 0.5 };
+  if (pointer && width > 0 && height > 0) {
+    const shift = PARALLAX_SHIFT * (parallax / 100);
+    target.x -= ((pointer.x - width / 2) / (width / 2)) * shift;
+    target.y -= ((pointer.y - height / 2) / (height / 2)) * shift;
+  }
+  return target;
+};
+
+export const easeCamera = (camera: Vec2, target: Vec2): Vec2 => ({
+  x: camera.x + (target.x - camera.x) * CAMERA_EASE,
+  y: camera.y + (target.y - camera.y) * CAMERA_EASE,
+});
+
+// Advance of the drift's phase per step; accumulated so speed changes never jump the camera
+export const driftStep = (cameraDrift: number): number => FIXED_STEP * DRIFT_SPEED * (cameraDrift / 100);
+
+const wrap = (value: number, size: number): number => ((value % size) + size) % size;
+
+export const starPosition = (star: Star, camera: Vec2, width: number, height: number): Vec2 => ({
+  x: wrap(star.x + camera.x * (star.z / 3), width),
+  y: wrap(star.y + camera.y * (star.z / 3), height),
+});
+
+// Enters from the top edge or the upper half of a side and falls diagonally across the view
+export const spawnShootingStar = (random: Random, width: number, height: number): ShootingStar => {
+  const leftward = random() < 0.5;
+  const angle = (0.15 + random() * 0.25) * Math.PI; // 27° to 72° below the horizontal
+  const speed = 12 + random() * 8;
+  const fromSide = random() < 0.3;
+  return {
+    x: fromSide ? (leftward ? width : 0) : random() * width,
+    y: fromSide ? random() * height * 0.5 : 0,
+    vx: Math.cos(angle) * speed * (leftward ? -1 : 1),
+    vy: Math.sin(angle) * speed,
+    age: 0,
+    life: 40 + random() * 30,
+  };
+};
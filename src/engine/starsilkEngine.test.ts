@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, type Config } from '../config';
+import { RecordingRenderer } from './recordingRenderer';
+import { StarsilkEngine } from './starsilkEngine';
+
+// Steps a fresh engine and records the frame it ends on
+const recordFrame = (config: Config, steps: number): RecordingRenderer => {
+  const engine = new StarsilkEngine(config);
+  engine.resize(800, 600);
+  engine.advance(steps);
+  const renderer = new RecordingRenderer();
+  engine.render(renderer);
+  return renderer;
+};
+
+describe('StarsilkEngine', () => {
+  it('draws the same frame for the same seed and steps', () => {
+    const config = { ...DEFAULT_CONFIG, seed: 42 };
+    const first = recordFrame(config, 120);
+    expect(first.commands.length).toBeGreaterThan(0);
+    expect(recordFrame(config, 120).commands).toEqual(first.commands);
+  });
+
+  it('replays a busier scene deterministically', () => {
+    const config: Config = {
+      ...DEFAULT_CONFIG,
+      seed: 7,
+      layoutMode: 'convergence',
+      numStreams: 9,
+      effects: ['repulsion', 'particles', 'surges', 'gravity'].map(id => ({ id, strength: 100 })),
+    };
+    expect(recordFrame(config, 300).commands).toEqual(recordFrame(config, 300).commands);
+  });
+
+  it('draws a different frame for a different seed', () => {
+    expect(recordFrame({ ...DEFAULT_CONFIG, seed: 2 }, 120).commands)
+      .not.toEqual(recordFrame({ ...DEFAULT_CONFIG, seed: 1 }, 120).commands);
+  });
+
+  it('does not change the simulation when rendering', () => {
+    const config = { ...DEFAULT_CONFIG, seed: 3 };
+    const engine = new StarsilkEngine(config);
+    engine.resize(800, 600);
+    engine.advance(60);
+    engine.render(new RecordingRenderer());
+    engine.advance(60);
+    const renderer = new RecordingRenderer();
+    engine.render(renderer);
+    expect(renderer.commands).toEqual(recordFrame(config, 120).commands);
+  });
+
+  it('keeps the stars in place when the star density changes after a resize', () => {
+    const config = { ...DEFAULT_CONFIG, seed: 5 };
+    const engine = new StarsilkEngine(config);
+    engine.resize(800, 600);
+    engine.resize(1000, 700);
+    const before = engine.stars.map(({ x, y }) => ({ x, y }));
+
+    engine.setConfig({ ...config, starDensity: config.starDensity + 20 });
+    expect(engine.stars.length).toBeGreaterThan(before.length);
+    expect(engine.stars.slice(0, before.length).map(({ x, y }) => ({ x, y }))).toEqual(before);
+
+    engine.setConfig({ ...config, starDensity: config.starDensity - 20 });
+    expect(engine.stars.map(({ x, y }) => ({ x, y }))).toEqual(before.slice(0, engine.stars.length));
+  });
+});
@@ -0,0 +1,739 @@
+import { SILENT_AUDIO, simulateAudio, type AudioLevels } from '../audioReactor';
+import { DEFAULT_STREAM_CONFIG, type Config } from '../config';
+import { compilePalette, hueRotation, parseHex, resolvePalette, rgba, rotateHue, sampleStops, type PaletteColors, type Rgb } from '../palettes';
+import { createRandom, deriveSeed, type Random } from '../random';
+import { applyTimeline } from '../timeline';
+import { ease, type EasingMode } from './easing';
+import { activeEffects, hasEffect, SURGE_DURATION, SURGE_LENGTH, SURGE_TRAVEL_TIME, type EffectScene, type EffectStep } from './effects';
+import { placeWells, type ActiveWell } from './gravityWells';
+import { layoutStreams, terminusPoint, type StreamLayout } from './layout';
+import { DEFAULT_RENDER_STYLE, getLayout, tracePath } from './layouts';
+import { catmullRom, getNormal, normalize, type Vec2 } from './math';
+import { drawNebula, generateNebula, nebulaDriftStep, nebulaMargin, nebulaOffset } from './nebula';
+import { ParticlePool } from './particles';
+import { QUALITY_SETTINGS, type QualitySettings } from './quality';
+import type { Renderer } from './renderer';
+import { SHOCKWAVE_LIFETIME, shockwaveRadius, shockwaveStrength, type Shockwave } from './shockwaves';
+import { SilkNode, type NodeEnvironment, type PointerInput } from './silkNode';
+import { SHOOTING_STAR_TRAIL, cameraTarget, driftStep, easeCamera, spawnShootingStar, starPosition, type ShootingStar, type Star } from './starfield';
+import { FIXED_STEP } from './simulationClock';
+import { drawTerminusBack, drawTerminusFront, placeTermini, type ActiveTerminus } from './terminus';
+
+// --- Types & Interfaces ---
+export interface SilkStream {
+  nodes: SilkNode[];
+  colorPhase: number; // noise offset, and hue offset while hue cycling
+  surgeTime: number;
+  travellingSurges: number[]; // engine times at which clicked surges left the origin
+  speedMultiplier: number;
+  localTime: number;
+  alpha: number; // below 1 while fading in or out during a morph
+  removing: boolean; // fading out; dropped once the morph ends
+}
+
+interface NodeMorph {
+  node: SilkNode;
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+  fromPhaseX: number;
+  fromPhaseY: number;
+  toPhaseX: number;
+  toPhaseY: number;
+}
+
+interface StreamMorph {
+  stream: SilkStream;
+  fromAlpha: number;
+  toAlpha: number;
+  nodes: NodeMorph[];
+}
+
+interface Morph {
+  elapsed: number; // ms of simulated time
+  duration: number;
+  easing: EasingMode;
+  streams: StreamMorph[];
+}
+
+// Fields that move stream origins; changing them relayouts the running scene
+const LAYOUT_KEYS = ['numStreams', 'startX', 'startY', 'endX', 'endY', 'layoutMode'] as const;
+
+// Part of the simulation, unlike the drawn spline resolution (see ./quality)
+const NUM_NODES_PER_STREAM = 40;
+// Clicks and taps
+const MAX_SHOCKWAVES = 16;
+const SHOOTING_STAR_SEGMENTS = 6; // a trail fades out over this many strokes
+const SHOCKWAVE_RING_SEGMENTS = 48;
+const SURGE_PICK_RADIUS = 80; // px from any node of a stream
+export const WELL_HANDLE_RADIUS = 6; // px; the draggable dot at a well's anchor
+export const PATH_HANDLE_RADIUS = 5; // px; the draggable control points of a drawn path
+
+// --- Engine ---
+// Owns the whole simulation (silk, stars, particles) and turns it into draw
+// commands for any Renderer. Knows nothing about React, the DOM or real time:
+// callers feed it config, size, pointers and audio, and decide when to step.
+export class StarsilkEngine {
+  // Effective config: what the user set, with timeline automation applied
+  config: Config;
+  width = 0;
+  height = 0;
+  time = 0;
+  stepCount = 0;
+
+  streams: SilkStream[] = [];
+  stars: Star[] = [];
+  shootingStars: ShootingStar[] = [];
+  camera: Vec2 = { x: 0, y: 0 }; // parallax offset of the nearest star layer
+  particles: ParticlePool;
+  wells: ActiveWell[] = [];
+  shockwaves: Shockwave[] = [];
+  // Drawing detail only; the live view may lower it, exports keep the default
+  quality: QualitySettings = QUALITY_SETTINGS.high;
+
+  private baseConfig: Config;
+  private palette: PaletteColors;
+  private morph: Morph | null = null;
+  // Keyed by pointer id; Map order keeps the earliest pointer first
+  private pointers = new Map<number, PointerInput>();
+  private audioInput: AudioLevels = SILENT_AUDIO;
+  // Simulation decisions (surges, particles); reseeded with the scene
+  private random: Random;
+  // Shooting stars draw from their own sequence so turning them on leaves the silk's surges untouched
+  private skyRandom: Random;
+  private driftPhase = 0;
+  private nebulaPhase = 0;
+  // Slice flicker is re-derived from the step count, so redrawing a paused frame never changes it
+  private sliceSeed: number;
+
+  constructor(config: Config) {
+    this.baseConfig = config;
+    this.config = applyTimeline(config, 0);
+    this.palette = this.compilePalette();
+    this.particles = new ParticlePool(this.config.particles.budget);
+    this.random = createRandom(deriveSeed(config.seed, 'frame'));
+    this.skyRandom = createRandom(deriveSeed(config.seed, 'sky'));
+    this.sliceSeed = deriveSeed(config.seed, 'slices');
+  }
+
+  // Takes the user's Config; the engine works out what has to be rebuilt
+  setConfig(config: Config) {
+    this.baseConfig = config;
+    this.applyConfig(applyTimeline(config, this.time / 1000), false);
+  }
+
+  // The first size builds the scene; later ones stretch the running scene, so
+  // the clock and the timeline carry on through window resizes and fullscreen
+  resize(width: number, height: number) {
+    const scaleX = this.width > 0 ? width / this.width : 0;
+    const scaleY = this.height > 0 ? height / this.height : 0;
+    this.width = width;
+    this.height = height;
+    if (scaleX > 0 && scaleY > 0 && this.streams.length > 0) {
+      this.fitScene(scaleX, scaleY);
+      this.fitStars(scaleX, scaleY);
+    } else {
+      this.resetNodes();
+      this.resetStars();
+    }
+    this.updateWells();
+  }
+
+  // A new seed replays the scene, layout changes morph it and a new density
+  // tops the starfield up or trims it. Keyframed coordinates already glide on their own,
+  // so timeline-driven moves follow directly instead of starting a transition.
+  private applyConfig(next: Config, fromTimeline: boolean) {
+    const previous = this.config;
+    if (next === previous) return;
+    this.config = next;
+
+    if (next.palette !== previous.palette || next.customPalettes !== previous.customPalettes) {
+      this.palette = this.compilePalette();
+    }
+
+    if (next.seed !== previous.seed) {
+      this.resetNodes();
+      this.resetStars();
+    } else {
+      if (next.layoutMode !== previous.layoutMode || next.numStreams !== previous.numStreams) {
+        this.morphNodes();
+      } else if (LAYOUT_KEYS.some(key => next[key] !== previous[key])) {
+        if (fromTimeline) this.retargetNodes();
+        else this.morphNodes();
+      } else if (getLayout(next.layoutMode).editablePaths && next.streamPaths !== previous.streamPaths) {
+        // Paths are edited by dragging, so the silk follows the handle directly
+        this.retargetNodes();
+      }
+      if (next.starDensity !== previous.starDensity) this.fitStars();
+    }
+
+    if (next.particles.budget !== this.particles.budget) this.particles.setBudget(next.particles.budget);
+
+    // Keeps wells in step with edits made while paused
+    this.updateWells();
+  }
+
+  private compilePalette(): PaletteColors {
+    return compilePalette(resolvePalette(this.config.palette, this.config.customPalettes));
+  }
+
+  setPointer(id: number, x: number, y: number, pressure = 1) {
+    this.pointers.set(id, { x, y, pressure });
+  }
+
+  clearPointer(id: number) {
+    this.pointers.delete(id);
+  }
+
+  clearPointers() {
+    this.pointers.clear();
+  }
+
+  // A click or tap: a shockwave from the point, and a surge travelling down
+  // every stream that passes near it
+  press(x: number, y: number) {
+    this.shockwaves.push({ x, y, age: 0 });
+    if (this.shockwaves.length > MAX_SHOCKWAVES) this.shockwaves.shift();
+
+    this.streams.forEach(stream => {
+      if (stream.removing) return;
+      if (stream.nodes.some(node => Math.hypot(node.x - x, node.y - y) < SURGE_PICK_RADIUS)) stream.travellingSurges.push(this.time);
+    });
+  }
+
+  // Levels from a live source; the simulated pulse is generated internally
+  setAudioInput(levels: AudioLevels) {
+    this.audioInput = levels;
+
+    // Beat onsets start a surge on every stream
+    if (levels.beat && this.config.audioReactive && this.config.audioBeatSurges) {
+      this.streams.forEach(stream => { stream.surgeTime = stream.localTime; });
+    }
+  }
+
+  get audio(): AudioLevels {
+    if (!this.config.audioReactive) return SILENT_AUDIO;
+    return this.config.audioSource === 'simulated' ? simulateAudio(this.time) : this.audioInput;
+  }
+
+  // The seeded starfield for the current size and density
+  private seedStars(): Star[] {
+    const { seed, starDensity: density } = this.config;
+    const starRandom = createRandom(deriveSeed(seed, 'stars'));
+    const count = Math.floor((this.width * this.height) / (20000 / (density + 1)));
+    return Array.from({ length: count }, () => ({
+      x: starRandom() * this.width,
+      y: starRandom() * this.height,
+      z: starRandom() > 0.8 ? 3 : (starRandom() > 0.5 ? 2 : 1),
+      phase: starRandom() * Math.PI * 2
+    }));
+  }
+
+  private resetStars() {
+    this.stars = this.seedStars();
+  }
+
+  // Stretches the existing stars over the view, then tops the field up from the
+  // seeded one, or trims it, to match the density at the current size. Stars
+  // already in the sky never move, so resizes and density changes do not pop the field
+  private fitStars(scaleX = 1, scaleY = 1) {
+    const seeded = this.seedStars();
+    const kept = this.stars.slice(0, seeded.length).map(star => ({ ...star, x: star.x * scaleX, y: star.y * scaleY }));
+    this.stars = [...kept, ...seeded.slice(kept.length)];
+  }
+
+  // Moves everything on screen by the view's stretch, then points the nodes at
+  // the anchors the layout gives for the new size; the springs do the rest
+  private fitScene(scaleX: number, scaleY: number) {
+    this.streams.forEach(stream => stream.nodes.forEach(node => {
+      node.x *= scaleX;
+      node.y *= scaleY;
+      node.ox *= scaleX;
+      node.oy *= scaleY;
+    }));
+    this.morph?.streams.forEach(({ nodes }) => nodes.forEach(n => {
+      n.fromX *= scaleX;
+      n.fromY *= scaleY;
+      n.toX *= scaleX;
+      n.toY *= scaleY;
+    }));
+    this.particles.forEach(p => {
+      p.x *= scaleX;
+      p.y *= scaleY;
+    });
+    [...this.shockwaves, ...this.shootingStars].forEach(item => {
+      item.x *= scaleX;
+      item.y *= scaleY;
+    });
+    this.retargetNodes();
+  }
+
+  // Rebuilds every stream and restarts the scene, so the same seed always replays from the same frame
+  resetNodes() {
+    this.particles.clear();
+    this.shockwaves = [];
+    this.time = 0;
+    this.stepCount = 0;
+    this.morph = null;
+
+    // The timeline restarts with the scene
+    this.config = applyTimeline(this.baseConfig, 0);
+    this.palette = this.compilePalette();
+    const cfg = this.config;
+    this.random = createRandom(deriveSeed(cfg.seed, 'frame'));
+    this.skyRandom = createRandom(deriveSeed(cfg.seed, 'sky'));
+    this.sliceSeed = deriveSeed(cfg.seed, 'slices');
+    this.shootingStars = [];
+    this.camera = { x: 0, y: 0 };
+    this.driftPhase = 0;
+    this.nebulaPhase = 0;
+
+    this.streams = layoutStreams(cfg, this.width, this.height, NUM_NODES_PER_STREAM)
+      .map((layout, s) => this.createStream(s, layout, layout.anchors));
+  }
+
+  // Eases the current streams into the layout the config now describes. New
+  // streams grow out of their origin, surplus streams fade out and are dropped.
+  private morphNodes() {
+    const cfg = this.config;
+    const layouts = layoutStreams(cfg, this.width, this.height, NUM_NODES_PER_STREAM);
+    const count = Math.max(layouts.length, this.streams.length);
+    const morphs: StreamMorph[] = [];
+
+    for (let s = 0; s < count; s++) {
+      const layout = layouts[s];
+      let stream = this.streams[s];
+
+      if (!stream) {
+        const origin = layout.anchors[0];
+        stream = this.createStream(s, layout, layout.anchors.map(() => origin));
+        stream.alpha = 0;
+        this.streams.push(stream);
+      }
+      stream.removing = !layout;
+
+      morphs.push({
+        stream,
+        fromAlpha: stream.alpha,
+        toAlpha: layout ? 1 : 0,
+        nodes: stream.nodes.map((node, i) => ({
+          node,
+          fromX: node.ox,
+          fromY: node.oy,
+          toX: layout ? layout.anchors[i].x : node.ox,
+          toY: layout ? layout.anchors[i].y : node.oy,
+          fromPhaseX: node.phaseOffsetX,
+          fromPhaseY: node.phaseOffsetY,
+          toPhaseX: layout ? layout.phaseOffsetX : node.phaseOffsetX,
+          toPhaseY: layout ? layout.phaseOffsetY : node.phaseOffsetY,
+        })),
+      });
+    }
+
+    this.morph = { elapsed: 0, duration: cfg.transitionDuration, easing: cfg.transitionEasing, streams: morphs };
+    // A zero duration still goes through the morph so streams are added and dropped the same way
+    if (cfg.transitionDuration <= 0) this.stepMorph();
+  }
+
+  // Moves anchors to the current layout without a transition of their own; a
+  // running morph keeps its timing and simply heads for the new targets
+  private retargetNodes() {
+    const layouts = layoutStreams(this.config, this.width, this.height, NUM_NODES_PER_STREAM);
+    if (this.morph) {
+      this.morph.streams.forEach(({ nodes }, s) => {
+        const layout = layouts[s];
+        if (!layout) return;
+        nodes.forEach((n, i) => {
+          n.toX = layout.anchors[i].x;
+          n.toY = layout.anchors[i].y;
+        });
+      });
+      return;
+    }
+    this.streams.forEach((stream, s) => {
+      const layout = layouts[s];
+      if (!layout) return;
+      stream.nodes.forEach((node, i) => {
+        node.ox = layout.anchors[i].x;
+        node.oy = layout.anchors[i].y;
+      });
+    });
+  }
+
+  // Per-stream randomness only depends on the stream's index, so a stream
+  // added by a morph matches the one a fresh scene would have built
+  private createStream(s: number, layout: Pick<StreamLayout, 'phaseOffsetX' | 'phaseOffsetY'>, positions: Vec2[]): SilkStream {
+    const nodeRandom = createRandom(deriveSeed(this.config.seed, 'nodes'));
+    for (let i = 0; i < s * 3; i++) nodeRandom();
+
+    // Nodes rest where they are created; a growing stream starts collapsed and is morphed onto its anchors
+    return {
+      nodes: positions.map(position => new SilkNode(position.x, position.y, layout.phaseOffsetX, layout.phaseOffsetY, s)),
+      colorPhase: s * 0.3,
+      surgeTime: nodeRandom() * 10000,
+      travellingSurges: [],
+      speedMultiplier: 0.5 + nodeRandom() * 1.5, // 0.5x to 2.0x
+      localTime: nodeRandom() * 10000,
+      alpha: 1,
+      removing: false,
+    };
+  }
+
+  private stepMorph() {
+    const morph = this.morph;
+    if (!morph) return;
+
+    morph.elapsed += FIXED_STEP;
+    const progress = morph.duration > 0 ? Math.min(1, morph.elapsed / morph.duration) : 1;
+    const t = ease(morph.easing, progress);
+
+    morph.streams.forEach(({ stream, fromAlpha, toAlpha, nodes }) => {
+      stream.alpha = fromAlpha + (toAlpha - fromAlpha) * t;
+      nodes.forEach(n => {
+        n.node.ox = n.fromX + (n.toX - n.fromX) * t;
+        n.node.oy = n.fromY + (n.toY - n.fromY) * t;
+        n.node.phaseOffsetX = n.fromPhaseX + (n.toPhaseX - n.fromPhaseX) * t;
+        n.node.phaseOffsetY = n.fromPhaseY + (n.toPhaseY - n.fromPhaseY) * t;
+      });
+    });
+
+    if (progress >= 1) {
+      this.streams = this.streams.filter(stream => !stream.removing);
+      this.morph = null;
+    }
+  }
+
+  private updateWells() {
+    // Following wells chase the pointer that has been down the longest
+    const pointer = this.pointers.values().next().value ?? null;
+    this.wells = placeWells(this.config.gravityWells, this.wells, this.time, pointer, this.width, this.height);
+  }
+
+  // Terminus objects follow the resting ends of their streams, so they glide along
+  // with a morph. Streams that end past the edge (the tree's branches) hold theirs at the edge
+  private termini(): ActiveTerminus[] {
+    const cfg = this.config;
+    if (!cfg.enableSun) return [];
+    const streamEnds = this.streams.map(stream => {
+      const end = stream.nodes[stream.nodes.length - 1];
+      return { x: Math.min(this.width, Math.max(0, end.ox)), y: Math.min(this.height, Math.max(0, end.oy)) };
+    });
+    return placeTermini(cfg.terminusObjects, streamEnds, terminusPoint(cfg, this.width, this.height), this.palette.sun);
+  }
+
+  private surgesEnabled(): boolean {
+    const cfg = this.config;
+    return hasEffect(cfg, 'surges') || (cfg.audioReactive && cfg.audioBeatSurges);
+  }
+
+  // Advances the simulation by exactly one FIXED_STEP
+  step() {
+    this.time += FIXED_STEP;
+    this.stepCount++;
+    this.applyConfig(applyTimeline(this.baseConfig, this.time / 1000), true);
+    const cfg = this.config;
+
+    this.stepMorph();
+    this.updateWells();
+    this.shockwaves.forEach(wave => { wave.age += FIXED_STEP; });
+    this.shockwaves = this.shockwaves.filter(wave => wave.age < SHOCKWAVE_LIFETIME);
+    const effects = activeEffects(cfg);
+    const termini = this.termini();
+    const env: NodeEnvironment = { config: cfg, layout: getLayout(cfg.layoutMode), effects, audio: this.audio, pointers: [...this.pointers.values()], wells: this.wells, shockwaves: this.shockwaves, termini };
+    const effectStep: EffectStep = {
+      config: cfg, time: this.time, palette: this.palette, particles: this.particles, random: this.random,
+      pointers: env.pointers, termini, surgesEnabled: this.surgesEnabled(),
+    };
+    const surgeEffect = hasEffect(cfg, 'surges');
+
+    // Global increment based on slider
+    const globalSpeedFactor = cfg.silkSpeed / 50;
+
+    this.streams.forEach((stream, sIdx) => {
+      const streamCfg = cfg.streamConfigs[sIdx] || DEFAULT_STREAM_CONFIG;
+      const strandMultiplier = cfg.variableSpeed ? stream.speedMultiplier : 1.0;
+      const userSpeedMultiplier = streamCfg.speed / 100;
+      stream.localTime += FIXED_STEP * globalSpeedFactor * strandMultiplier * userSpeedMultiplier;
+      const sTime = stream.localTime;
+
+      stream.nodes.forEach((node, i) => node.update(sTime, i, env));
+
+      // Beat-only surges wait for the next onset; the surges effect schedules its own
+      if (!surgeEffect && this.surgesEnabled() && sTime > stream.surgeTime + SURGE_DURATION) {
+        stream.surgeTime = Infinity;
+      }
+
+      // Clicked surges are dropped once their tail has left the terminus
+      if (stream.travellingSurges.length > 0) {
+        stream.travellingSurges = stream.travellingSurges.filter(start => this.time - start < SURGE_TRAVEL_TIME * (1 + SURGE_LENGTH));
+      }
+
+      effects.forEach(({ effect, strength }) => effect.stepStream?.(stream, effectStep, strength));
+    });
+    effects.forEach(({ effect, strength }) => effect.stepScene?.(effectStep, strength));
+
+    // Star flicker
+    const flickerSpd = cfg.starFlickerSpeed * 0.0001;
+    this.stars.forEach(star => { star.phase += flickerSpd * star.z; });
+
+    // Parallax camera, following the pointer that has been down the longest
+    this.driftPhase += driftStep(cfg.cameraDrift);
+    this.nebulaPhase += nebulaDriftStep(cfg.nebula.drift);
+    const pointer = this.pointers.values().next().value ?? null;
+    this.camera = easeCamera(this.camera, cameraTarget(cfg.starParallax, this.driftPhase, pointer, this.width, this.height));
+
+    // Shooting stars
+    this.shootingStars.forEach(star => {
+      star.x += star.vx;
+      star.y += star.vy;
+      star.age++;
+    });
+    this.shootingStars = this.shootingStars.filter(star => star.age < star.life);
+    if (cfg.shootingStars > 0 && this.skyRandom() < cfg.shootingStars * (FIXED_STEP / 60000)) {
+      this.shootingStars.push(spawnShootingStar(this.skyRandom, this.width, this.height));
+    }
+
+    // Particles keep moving after their effect is removed, so they fade out instead of freezing
+    this.particles.step(cfg.particles, hasEffect(cfg, 'gravity') ? this.wells : [], env.pointers);
+  }
+
+  advance(steps: number) {
+    for (let i = 0; i < steps; i++) this.step();
+  }
+
+  // Draws the current state; never changes the simulation
+  render(renderer: Renderer) {
+    const cfg = this.config;
+    const { width, height, streams } = this;
+    const audio = this.audio;
+    const palette = this.palette;
+    const sliceRandom = createRandom(this.sliceSeed + this.stepCount);
+
+    // Draw background (no trails for background itself to prevent smearing stars badly, so we clear, draw stars, then dim overlay)
+    renderer.setBlendMode('normal');
+    renderer.fillRect(0, 0, width, height, '#050508');
+
+    if (cfg.enableStars) {
+      renderer.setBlendMode('additive');
+
+      // Distant Nebula: generated only when its key changes, then moved as a whole
+      if (cfg.nebula.clouds > 0) {
+        const margin = nebulaMargin(width, height);
+        const layerWidth = width + margin * 2;
+        const layerHeight = height + margin * 2;
+        const colors = cfg.nebula.colors.length > 0 ? cfg.nebula.colors.map(parseHex) : palette.nebula;
+        const key = JSON.stringify([cfg.seed, cfg.nebula, colors, layerWidth, layerHeight]);
+        const offset = nebulaOffset(this.nebulaPhase, this.camera, margin);
+        renderer.layer(key, offset.x - margin, offset.y - margin, layerWidth, layerHeight, layer =>
+          drawNebula(layer, generateNebula(deriveSeed(cfg.seed, 'nebula'), cfg.nebula, colors, layerWidth, layerHeight)));
+      }
+
+      // Starfield
+      const lumMultiplier = cfg.starLuminosity / 50;
+
+      const starCount = Math.floor(this.stars.length * this.quality.starFraction);
+      this.stars.slice(0, starCount).forEach(star => {
+        const flicker = Math.sin(star.phase) * 0.5 + 0.5;
+        const alpha = (0.2 + flicker * 0.8) * lumMultiplier * (star.z / 3);
+        const { x, y } = starPosition(star, this.camera, width, height);
+
+        if (star.z === 3 && flicker > 0.9) {
+          renderer.fillRect(x - 1, y - 1, 3, 3, rgba(palette.stars[1], alpha));
+        } else {
+          const size = star.z === 3 ? 2 : 1;
+          renderer.fillRect(x, y, size, size, rgba(palette.stars[0], alpha));
+        }
+      });
+
+      // Shooting stars: a bright head and a trail fading behind it
+      this.shootingStars.forEach(star => {
+        const fade = Math.min(1, (star.life - star.age) / 10) * lumMultiplier;
+        const segmentX = (star.vx * SHOOTING_STAR_TRAIL) / SHOOTING_STAR_SEGMENTS;
+        const segmentY = (star.vy * SHOOTING_STAR_TRAIL) / SHOOTING_STAR_SEGMENTS;
+        for (let i = 0; i < SHOOTING_STAR_SEGMENTS; i++) {
+          const x = star.x - segmentX * i;
+          const y = star.y - segmentY * i;
+          const t = i / SHOOTING_STAR_SEGMENTS;
+          renderer.line(x, y, x - segmentX, y - segmentY, rgba(palette.stars[1], fade * (1 - t)), 2 * (1 - t) + 0.5);
+        }
+      });
+    }
+
+    // Restore dimming for trails
+    renderer.setBlendMode('normal');
+    renderer.fillRect(0, 0, width, height, 'rgba(5, 5, 8, 0.5)'); // Heavier dim to create motion blur trails over stars
+
+    // Additive Blending for glow
+    renderer.setBlendMode('additive');
+
+    // Terminus objects glow behind the silk
+    const termini = this.termini();
+    termini.forEach(object => drawTerminusBack(renderer, object, this.time));
+
+    // Render Streams
+    // Fading streams count partially, so widths and brightness ease along with a morph
+    const streamWeight = streams.reduce((sum, stream) => sum + stream.alpha, 0);
+    const style = { ...DEFAULT_RENDER_STYLE, ...getLayout(cfg.layoutMode).render };
+    const { segmentsPerNode, sliceStride } = this.quality;
+    // Sparser cross-strokes are drawn wider so the ribbon stays filled
+    const edgeWidth = style.edgeWidth * (QUALITY_SETTINGS.high.segmentsPerNode / segmentsPerNode);
+
+    streams.forEach((stream, sIdx) => {
+      if (stream.alpha <= 0) return;
+      const streamCfg = cfg.streamConfigs[sIdx] || DEFAULT_STREAM_CONFIG;
+      const sTime = stream.localTime;
+
+      const points: Vec2[] = [];
+      for (let i = 0; i < stream.nodes.length - 1; i++) {
+        const p0 = stream.nodes[Math.max(0, i - 1)];
+        const p1 = stream.nodes[i];
+        const p2 = stream.nodes[i + 1];
+        const p3 = stream.nodes[Math.min(stream.nodes.length - 1, i + 2)];
+
+        for (let j = 0; j < segmentsPerNode; j++) {
+          const t = j / segmentsPerNode;
+          points.push(catmullRom(p0, p1, p2, p3, t));
+        }
+      }
+      points.push(stream.nodes[stream.nodes.length - 1]);
+
+      // Handle Surges: scheduled ones light the whole strand, clicked ones travel along it
+      const isSurging = this.surgesEnabled() && sTime > stream.surgeTime;
+      const surgeFronts = stream.travellingSurges.map(start => (this.time - start) / SURGE_TRAVEL_TIME);
+
+      // Stream colours: one palette pair per stream, or blended along its length per point
+      const hue = cfg.hueCycle > 0 ? hueRotation((this.time / 1000) * cfg.hueCycle * (Math.PI / 180) + stream.colorPhase) : null;
+      const tint = (color: Rgb) => hue ? rotateHue(color, hue) : color;
+      const silk = cfg.paletteMode === 'gradient' ? palette.silk : [palette.silk[sIdx % palette.silk.length]];
+      const edgeStops = silk.map(color => tint(color.edge));
+      const coreStops = silk.map(color => tint(color.core));
+
+      for (let i = 0; i < points.length; i++) {
+        const p = points[i];
+        const nextP = points[i + 1 < points.length ? i + 1 : i];
+        const prevP = points[i > 0 ? i - 1 : i];
+
+        const tangent = normalize({ x: nextP.x - prevP.x, y: nextP.y - prevP.y });
+        const normal = getNormal(tangent);
+
+        const progress = i / points.length;
+        const surging = isSurging || surgeFronts.some(front => progress <= front && progress > front - SURGE_LENGTH);
+
+        let driftSpeed = sTime * style.flowRate;
+        if (surging) driftSpeed *= 3; // Surge speeds up the data flow
+
+        let finalWidth = style.ribbonWidth ?? 45 - (streamWeight * 2);
+        if (finalWidth < 10) finalWidth = 10;
+
+        const twist = Math.sin(progress * Math.PI * 6 - sTime * 0.001 + stream.colorPhase);
+        finalWidth = finalWidth * (0.85 + 0.15 * Math.abs(twist));
+
+        // User-configured manual width multiplier per-strand
+        const userWidthMultiplier = streamCfg.width / 100;
+        finalWidth *= userWidthMultiplier;
+
+        // Mids swell the ribbon
+        finalWidth *= 1 + audio.mid * (cfg.audioWidth / 100);
+
+        // Layouts with a fixed ribbon (the DNA helix) ignore all of the above
+        if (style.fixedWidth !== null) finalWidth = style.fixedWidth;
+
+        const pLeft = { x: p.x + normal.x * finalWidth, y: p.y + normal.y * finalWidth };
+        const pRight = { x: p.x - normal.x * finalWidth, y: p.y - normal.y * finalWidth };
+
+        // Opacity factoring
+        let baseAlphaFactor = style.alpha ?? 1 / Math.max(1, Math.sqrt(streamWeight));
+
+        // Streams growing in or fading out during a morph
+        baseAlphaFactor *= stream.alpha;
+
+        // Allow user to manually overdrive luminosity
+        baseAlphaFactor *= (cfg.silkLuminosity / 100);
+
+        // Hand-tuned variable luminosity per strand
+        const userLumMultiplier = streamCfg.luminosity / 100;
+        baseAlphaFactor *= userLumMultiplier;
+
+        // Treble brightens the slices
+        baseAlphaFactor *= 1 + audio.treble * (cfg.audioLuminosity / 100);
+
+        renderer.line(pLeft.x, pLeft.y, pRight.x, pRight.y, rgba(sampleStops(edgeStops, progress), (surging ? 0.6 : 0.25) * baseAlphaFactor), edgeWidth);
+
+        const streamOffset = stream.colorPhase * 100;
+        const barcodeNoise = Math.sin(progress * 1200 - driftSpeed * 2 + streamOffset) + Math.sin(progress * 2500 - driftSpeed * 4 + streamOffset) * 0.5;
+
+        if (barcodeNoise < -0.6 && !surging) continue;
+
+        const sliceNoise = Math.sin(progress * 1500 - driftSpeed * 3 + streamOffset * 2) + Math.cos(progress * 2800 - driftSpeed * 5);
+
+        if ((sliceNoise > 0.0 || surging) && i % sliceStride === 0) {
+          const coreWidth = finalWidth * 0.92;
+          const coreLeft = { x: p.x + normal.x * coreWidth, y: p.y + normal.y * coreWidth };
+          const coreRight = { x: p.x - normal.x * coreWidth, y: p.y - normal.y * coreWidth };
+
+          const lineIntensity = surging ? 1.0 : sliceRandom();
+
+          if (lineIntensity > 0.8) {
+            renderer.line(coreLeft.x, coreLeft.y, coreRight.x, coreRight.y, rgba(palette.highlight, 0.9 * baseAlphaFactor), 1);
+          } else if (lineIntensity > 0.3) {
+            renderer.line(coreLeft.x, coreLeft.y, coreRight.x, coreRight.y, rgba(sampleStops(coreStops, progress), 0.5 * baseAlphaFactor), 1.5);
+          }
+        }
+      }
+    });
+
+    // Shockwave rings, drawn as short chords since renderers have no stroked circle
+    this.shockwaves.forEach(wave => {
+      const radius = shockwaveRadius(wave);
+      const color = rgba(palette.highlight, 0.35 * shockwaveStrength(wave));
+      for (let i = 0; i < SHOCKWAVE_RING_SEGMENTS; i++) {
+        const a1 = (i / SHOCKWAVE_RING_SEGMENTS) * Math.PI * 2;
+        const a2 = ((i + 1) / SHOCKWAVE_RING_SEGMENTS) * Math.PI * 2;
+        renderer.line(wave.x + Math.cos(a1) * radius, wave.y + Math.sin(a1) * radius, wave.x + Math.cos(a2) * radius, wave.y + Math.sin(a2) * radius, color, 2);
+      }
+    });
+
+    // Effect overlays, e.g. particles
+    const scene: EffectScene = { config: cfg, time: this.time, palette, particles: this.particles };
+    activeEffects(cfg).forEach(({ effect, strength }) => effect.render?.(renderer, scene, strength));
+
+    termini.forEach(object => drawTerminusFront(renderer, object));
+  }
+
+  // Editing aids, drawn over the scene while the panel is open; never part of exports
+  renderEditMarkers(renderer: Renderer) {
+    renderer.setBlendMode('normal');
+    if (getLayout(this.config.layoutMode).editablePaths) this.renderPathMarkers(renderer);
+    if (hasEffect(this.config, 'gravity')) this.renderWellMarkers(renderer);
+  }
+
+  private renderPathMarkers(renderer: Renderer) {
+    const { width, height } = this;
+    this.config.streamPaths.slice(0, this.config.numStreams).forEach(path => {
+      const traced = tracePath(path, width, height);
+      for (let i = 1; i < traced.length; i++) {
+        renderer.line(traced[i - 1].x, traced[i - 1].y, traced[i].x, traced[i].y, 'rgba(255, 255, 255, 0.2)', 1);
+      }
+      path.forEach((point, i) => {
+        // The origin is marked apart so the direction of flow is clear
+        const color = i === 0 ? 'rgba(0, 255, 160, 0.6)' : 'rgba(255, 255, 255, 0.5)';
+        renderer.circle((point.x / 100) * width, (point.y / 100) * height, PATH_HANDLE_RADIUS, color, 0.8);
+      });
+    });
+  }
+
+  private renderWellMarkers(renderer: Renderer) {
+    this.wells.forEach(well => {
+      const color = well.sign > 0 ? 'rgba(0, 200, 255, 0.5)' : 'rgba(255, 96, 96, 0.5)';
+      renderer.circle(well.x, well.y, well.radius, color, 0.25);
+      renderer.line(well.x - 6, well.y, well.x + 6, well.y, color, 1);
+      renderer.line(well.x, well.y - 6, well.x, well.y + 6, color, 1);
+      // Moving wells are dragged by their anchor
+      if (well.x !== well.anchorX || well.y !== well.anchorY) {
+        renderer.line(well.anchorX, well.anchorY, well.x, well.y, 'rgba(255, 255, 255, 0.15)', 1);
+      }
+      renderer.circle(well.anchorX, well.anchorY, WELL_HANDLE_RADIUS, color, 0.8);
+    });
+  }
+}
@@ -0,0 +1,145 @@
+import type { TerminusObject, TerminusType } from '../config';
+import { mixRgb, parseHex, rgba, type Rgb } from '../palettes';
+import type { Vec2 } from './math';
+import type { Renderer } from './renderer';
+
+// --- Terminus Objects ---
+// Config stores what sits where the streams end; this resolves where each
+// object is on a given step and draws it. An object sits at the resting end of
+// its own streams, or at the layout's terminus when it gathers every stream.
+
+export interface ActiveTerminus {
+  type: TerminusType;
+  x: number;
+  y: number;
+  radius: number;
+  streams: number[] | null; // null = every stream
+  colors: Rgb[]; // core, corona, halo
+  pulseRate: number; // share of the designed pulse speed
+  glow: number; // share of the designed halo size
+}
+
+const WHITE: Rgb = [255, 255, 255];
+const PULSE_SPEED = 0.002; // rad per ms of simulated time at 100%
+const SUN_PULSE = 0.25; // share of the radius a sun swells and shrinks by
+const HALO = 3; // halo radius as a multiple of the core at 100% glow
+const PULSAR_CORE = 0.35; // share of the radius that is the bright neutron star
+const PULSAR_BEAM = 8; // beam length as a multiple of the radius at 100% glow
+const PULL_RANGE = 8; // radii around a black hole within which its silk is drawn in
+const PULL = 0.9; // share of the way to the centre a spring target right at the hole is moved
+const SWIRL = 0.35; // sideways share of the pull, winding the silk around the hole
+const RING_SEGMENTS = 48;
+
+// A pulsar beam: wide faint strokes under narrow bright ones; width is a share of the radius
+const BEAM_STROKES = [
+  { color: 2, alpha: 0.1, width: 0.6 },
+  { color: 1, alpha: 0.25, width: 0.3 },
+  { color: 0, alpha: 0.8, width: 0.1 },
+];
+
+export const placeTermini = (objects: TerminusObject[], streamEnds: Vec2[], terminus: Vec2, sun: Rgb[]): ActiveTerminus[] =>
+  objects.flatMap(object => {
+    const own = object.streams.filter(s => s < streamEnds.length);
+    if (object.streams.length > 0 && own.length === 0) return []; // all of its streams are hidden
+    const at = own.length === 0 ? terminus : {
+      x: own.reduce((sum, s) => sum + streamEnds[s].x, 0) / own.length,
+      y: own.reduce((sum, s) => sum + streamEnds[s].y, 0) / own.length,
+    };
+    const color = object.color ? parseHex(object.color) : null;
+    return [{
+      type: object.type,
+      x: at.x,
+      y: at.y,
+      radius: object.radius,
+      streams: own.length > 0 ? own : null,
+      colors: color ? [WHITE, mixRgb(color, WHITE, 0.4), color] : sun,
+      pulseRate: object.pulseRate / 100,
+      glow: object.glow / 100,
+    }];
+  });
+
+// Offset of a node's spring target towards the black holes that gather its stream
+export const blackHolePull = (termini: ActiveTerminus[], stream: number, targetX: number, targetY: number): Vec2 => {
+  const offset = { x: 0, y: 0 };
+  termini.forEach(hole => {
+    if (hole.type !== 'blackHole' || (hole.streams && !hole.streams.includes(stream))) return;
+    const dx = hole.x - targetX;
+    const dy = hole.y - targetY;
+    const range = hole.radius * PULL_RANGE;
+    const dist = Math.hypot(dx, dy);
+    if (dist >= range) return;
+    const share = PULL * Math.sqrt(1 - dist / range); // strong well before the horizon
+    offset.x += (dx - dy * SWIRL) * share;
+    offset.y += (dy + dx * SWIRL) * share;
+  });
+  return offset;
+};
+
+const pulsePhase = (object: ActiveTerminus, time: number): number => time * PULSE_SPEED * object.pulseRate;
+
+// Glow drawn behind the silk, with additive blending
+export const drawTerminusBack = (renderer: Renderer, object: ActiveTerminus, time: number) => {
+  const { x, y, radius, colors, glow } = object;
+  const phase = pulsePhase(object, time);
+
+  if (object.type === 'sun') {
+    const sunRadius = radius + Math.sin(phase) * (radius * SUN_PULSE);
+    const halo = sunRadius * HALO * glow;
+    renderer.fillRect(x - halo, y - halo, halo * 2, halo * 2, {
+      x, y, radius: halo,
+      stops: [
+        { offset: 0, color: rgba(colors[0], 1) },
+        { offset: 0.1, color: rgba(colors[1], 0.8) },
+        { offset: 0.4, color: rgba(colors[2], 0.3) },
+        { offset: 1, color: 'rgba(0, 0, 0, 0)' },
+      ]
+    });
+  } else if (object.type === 'pulsar') {
+    // Two beams sweep round once per pulse and flash as they pass
+    const flash = 0.4 + 0.6 * Math.pow(Math.abs(Math.cos(phase)), 8);
+    const halo = radius * HALO * glow;
+    renderer.fillRect(x - halo, y - halo, halo * 2, halo * 2, {
+      x, y, radius: halo,
+      stops: [{ offset: 0, color: rgba(colors[1], 0.5 * flash) }, { offset: 0.3, color: rgba(colors[2], 0.15 * flash) }, { offset: 1, color: 'rgba(0, 0, 0, 0)' }],
+    });
+    const beam = radius * PULSAR_BEAM * glow;
+    const bx = Math.cos(phase) * beam;
+    const by = Math.sin(phase) * beam;
+    BEAM_STROKES.forEach(stroke => {
+      renderer.line(x - bx, y - by, x + bx, y + by, rgba(colors[stroke.color], stroke.alpha * flash), radius * stroke.width);
+    });
+    renderer.circle(x, y, radius * PULSAR_CORE, rgba(colors[0], 1), flash);
+  } else {
+    // Accretion disc from the horizon outwards, flickering with the pulse
+    const flicker = 0.8 + 0.2 * Math.sin(phase);
+    const disc = radius * (1 + (HALO - 1) * glow);
+    const horizon = radius / disc;
+    renderer.fillRect(x - disc, y - disc, disc * 2, disc * 2, {
+      x, y, radius: disc,
+      stops: [
+        { offset: 0, color: 'rgba(0, 0, 0, 0)' },
+        { offset: horizon, color: rgba(colors[1], 0.9 * flicker) },
+        { offset: horizon + (1 - horizon) * 0.25, color: rgba(colors[2], 0.35 * flicker) },
+        { offset: 1, color: 'rgba(0, 0, 0, 0)' },
+      ],
+    });
+  }
+};
+
+// Drawn over everything else: a black hole's horizon swallows the silk and sparks that reach it
+export const drawTerminusFront = (renderer: Renderer, object: ActiveTerminus) => {
+  if (object.type !== 'blackHole') return;
+  const { x, y, radius, colors } = object;
+  renderer.setBlendMode('normal');
+  renderer.circle(x, y, radius, '#000000', 1);
+
+  // Photon ring, drawn as short chords like the shockwave rings
+  renderer.setBlendMode('additive');
+  const ring = radius * 1.05;
+  const color = rgba(colors[0], 0.6);
+  for (let i = 0; i < RING_SEGMENTS; i++) {
+    const a1 = (i / RING_SEGMENTS) * Math.PI * 2;
+    const a2 = ((i + 1) / RING_SEGMENTS) * Math.PI * 2;
+    renderer.line(x + Math.cos(a1) * ring, y + Math.sin(a1) * ring, x + Math.cos(a2) * ring, y + Math.sin(a2) * ring, color, 1.5);
+  }
+};
@@ -0,0 +1,138 @@
+import { createZip, type ZipEntry } from './zip';
+
+// --- Offline Export ---
+// Renders a clip frame by frame into its own canvas. The caller decides what a
+// frame looks like; this module only handles sizing, pacing and encoding.
+
+export type ClipFormat = 'webm' | 'png';
+
+export interface ClipOptions {
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // seconds
+  format: ClipFormat;
+}
+
+export type ExportContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type FrameRenderer = (ctx: ExportContext, index: number) => void;
+
+export interface PosterSize {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const POSTER_SIZES: PosterSize[] = [
+  { label: '4K UHD', width: 3840, height: 2160 },
+  { label: '5K', width: 5120, height: 2880 },
+  { label: '8K UHD', width: 7680, height: 4320 },
+  { label: 'A3 Landscape @ 300dpi', width: 4961, height: 3508 },
+  { label: 'A2 Landscape @ 300dpi', width: 7016, height: 4961 },
+  { label: 'Phone Wallpaper', width: 1440, height: 3120 },
+];
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const canvasToBlob = (canvas: HTMLCanvasElement | OffscreenCanvas, type = 'image/png') => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type });
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded'))), type);
+  });
+};
+
+const pickWebmType = (): string => {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  const supported = candidates.find(type => MediaRecorder.isTypeSupported(type));
+  if (!supported) throw new Error('This browser cannot record WebM video');
+  return supported;
+};
+
+// MediaRecorder stamps frames with wall-clock time, so frames are still pushed
+// at the target rate; the simulation itself is stepped exactly once per frame.
+const recordWebm = async (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, options: ClipOptions, frameCount: number, renderFrame: FrameRenderer, onProgress: (progress: number) => void): Promise<Blob> => {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType: pickWebmType(),
+    videoBitsPerSecond: Math.round(options.width * options.height * options.fps * 0.15),
+  });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  const frameInterval = 1000 / options.fps;
+  for (let i = 0; i < frameCount; i++) {
+    renderFrame(ctx, i);
+    track.requestFrame();
+    onProgress((i + 1) / frameCount);
+    await wait(frameInterval);
+  }
+  recorder.stop();
+  await stopped;
+  track.stop();
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+const recordPngSequence = async (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, frameCount: number, renderFrame: FrameRenderer, onProgress: (progress: number) => void): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const digits = String(frameCount).length;
+  for (let i = 0; i < frameCount; i++) {
+    renderFrame(ctx, i);
+    const png = await canvasToBlob(canvas);
+    entries.push({ name: `frame_${String(i + 1).padStart(digits, '0')}.png`, data: new Uint8Array(await png.arrayBuffer()) });
+    onProgress((i + 1) / frameCount);
+  }
+  return createZip(entries);
+};
+
+const createExportCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  // Browsers return null (or a zero-sized canvas) past their size limits
+  const ctx = canvas.width === width && canvas.height === height ? canvas.getContext('2d', { alpha: false }) : null;
+  if (!ctx) throw new Error(`The browser cannot create a ${width}×${height} canvas`);
+  return { canvas, ctx };
+};
+
+// Stills are also rendered inside the render worker, which has no document
+const createStillCanvas = (width: number, height: number) => {
+  if (typeof document !== 'undefined') return createExportCanvas(width, height);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { alpha: false });
+  if (!ctx) throw new Error(`The browser cannot create a ${width}×${height} canvas`);
+  return { canvas, ctx };
+};
+
+export const renderStill = async (width: number, height: number, renderFrame: FrameRenderer): Promise<Blob> => {
+  const { canvas, ctx } = createStillCanvas(width, height);
+  renderFrame(ctx, 0);
+  const blob = await canvasToBlob(canvas);
+  // Release the backing store right away; posters can be hundreds of megabytes
+  canvas.width = 0;
+  canvas.height = 0;
+  return blob;
+};
+
+export const renderClip = async (options: ClipOptions, renderFrame: FrameRenderer, onProgress: (progress: number) => void): Promise<Blob> => {
+  const { canvas, ctx } = createExportCanvas(options.width, options.height);
+
+  const frameCount = Math.max(1, Math.round(options.duration * options.fps));
+  return options.format === 'webm'
+    ? recordWebm(canvas, ctx, options, frameCount, renderFrame, onProgress)
+    : recordPngSequence(canvas, ctx, frameCount, renderFrame, onProgress);
+};
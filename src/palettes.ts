@@ -0,0 +1,162 @@
+// --- Palettes ---
+// A palette colours the whole scene. Silk colours come in edge/core pairs that
+// are either handed out one per stream or blended along each stream's length.
+// Colours are stored as #rrggbb so palettes stay editable with <input type="color">.
+
+export const PALETTE_MODES = ['stream', 'gradient'] as const;
+
+export type PaletteMode = typeof PALETTE_MODES[number];
+
+export interface SilkColor {
+  edge: string; // ribbon outline
+  core: string; // glowing slices
+}
+
+export interface Palette {
+  name: string;
+  silk: SilkColor[];
+  highlight: string; // brightest slices and particles
+  stars: [string, string]; // dim, bright
+  nebula: [string, string];
+  sun: [string, string, string]; // core, corona, halo
+}
+
+export const BUILT_IN_PALETTES: Palette[] = [
+  {
+    name: 'Starsilk Blue',
+    silk: [{ edge: '#0a1eb4', core: '#00b4ff' }],
+    highlight: '#dcf5ff',
+    stars: ['#b4c8ff', '#c8e6ff'],
+    nebula: ['#140a32', '#0a283c'],
+    sun: ['#ffffff', '#96dcff', '#1464ff'],
+  },
+  {
+    name: 'Aurora',
+    silk: [{ edge: '#0a6e50', core: '#3cffb4' }, { edge: '#143c8c', core: '#50c8ff' }, { edge: '#501e8c', core: '#b478ff' }],
+    highlight: '#e6fff5',
+    stars: ['#b4ffe6', '#dcfff0'],
+    nebula: ['#0a3228', '#1e0a3c'],
+    sun: ['#ffffff', '#a0ffd2', '#1eb48c'],
+  },
+  {
+    name: 'Ember',
+    silk: [{ edge: '#8c140a', core: '#ff6428' }, { edge: '#a03c00', core: '#ffb43c' }],
+    highlight: '#fff0dc',
+    stars: ['#ffd2b4', '#ffe6c8'],
+    nebula: ['#3c0a0a', '#3c1e05'],
+    sun: ['#ffffff', '#ffc878', '#ff5014'],
+  },
+  {
+    name: 'Nebula Rose',
+    silk: [{ edge: '#6e0a5a', core: '#ff50c8' }, { edge: '#3c1496', core: '#a064ff' }],
+    highlight: '#ffe6fa',
+    stars: ['#f0c8ff', '#ffdcf5'],
+    nebula: ['#3c0a32', '#140a46'],
+    sun: ['#ffffff', '#ffb4eb', '#b41ea0'],
+  },
+  {
+    name: 'Gold Leaf',
+    silk: [{ edge: '#5a3c00', core: '#ffc83c' }],
+    highlight: '#fffae6',
+    stars: ['#fff0c8', '#fffadc'],
+    nebula: ['#281e05', '#1e1405'],
+    sun: ['#ffffff', '#ffe696', '#c88c14'],
+  },
+  {
+    name: 'Spectrum',
+    silk: [
+      { edge: '#8c0a14', core: '#ff3c3c' },
+      { edge: '#8c500a', core: '#ffa028' },
+      { edge: '#6e6e0a', core: '#fff03c' },
+      { edge: '#0a6e28', core: '#3cff78' },
+      { edge: '#0a288c', core: '#3ca0ff' },
+      { edge: '#500a8c', core: '#b45aff' },
+    ],
+    highlight: '#ffffff',
+    stars: ['#c8c8ff', '#ffffff'],
+    nebula: ['#280a3c', '#0a2832'],
+    sun: ['#ffffff', '#fff0c8', '#ff6496'],
+  },
+];
+
+export const DEFAULT_PALETTE = BUILT_IN_PALETTES[0];
+
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Unknown names (a deleted custom palette, a link from a newer build) fall back to the default
+export const resolvePalette = (name: string, customPalettes: Palette[]): Palette =>
+  customPalettes.find(p => p.name === name) ?? BUILT_IN_PALETTES.find(p => p.name === name) ?? DEFAULT_PALETTE;
+
+export const uniquePaletteName = (base: string, customPalettes: Palette[]): string => {
+  const taken = new Set([...BUILT_IN_PALETTES, ...customPalettes].map(p => p.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+};
+
+// --- Colour Math ---
+// The engine works on parsed channels; strings are only built for the final draw call.
+
+export type Rgb = [number, number, number];
+
+export interface PaletteColors {
+  silk: { edge: Rgb; core: Rgb }[];
+  highlight: Rgb;
+  stars: Rgb[];
+  nebula: Rgb[];
+  sun: Rgb[];
+}
+
+export const parseHex = (hex: string): Rgb => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+export const compilePalette = (palette: Palette): PaletteColors => ({
+  silk: palette.silk.map(color => ({ edge: parseHex(color.edge), core: parseHex(color.core) })),
+  highlight: parseHex(palette.highlight),
+  stars: palette.stars.map(parseHex),
+  nebula: palette.nebula.map(parseHex),
+  sun: palette.sun.map(parseHex),
+});
+
+export const rgba = ([r, g, b]: Rgb, alpha: number): string =>
+  `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${alpha})`;
+
+export const mixRgb = (a: Rgb, b: Rgb, t: number): Rgb => [
+  a[0] + (b[0] - a[0]) * t,
+  a[1] + (b[1] - a[1]) * t,
+  a[2] + (b[2] - a[2]) * t,
+];
+
+// Picks a colour at position t (0..1) along evenly spaced stops
+export const sampleStops = (stops: Rgb[], t: number): Rgb => {
+  if (stops.length === 1) return stops[0];
+  const position = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  return mixRgb(stops[index], stops[index + 1], position - index);
+};
+
+export type HueMatrix = [number, number, number, number, number, number, number, number, number];
+
+// Same luminance-preserving matrix as the CSS hue-rotate() filter
+export const hueRotation = (angle: number): HueMatrix => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+};
+
+const clampChannel = (value: number) => Math.min(255, Math.max(0, value));
+
+export const rotateHue = ([r, g, b]: Rgb, m: HueMatrix): Rgb => [
+  clampChannel(r * m[0] + g * m[1] + b * m[2]),
+  clampChannel(r * m[3] + g * m[4] + b * m[5]),
+  clampChannel(r * m[6] + g * m[7] + b * m[8]),
+];
@@ -0,0 +1,49 @@
+import { isRecord } from './config';
+import { DEFAULT_FRAME_BUDGET, QUALITY_MODES, type QualityMode } from './engine/quality';
+
+// --- Performance Settings ---
+// How much detail this device can afford. Unlike the scene's Config this is
+// not part of presets or links: the same scene should run full detail on a
+// workstation and adapt on a kiosk.
+
+export interface PerformanceSettings {
+  quality: QualityMode;
+  frameBudget: number; // ms of work per frame 'auto' quality aims for
+  showHud: boolean;
+}
+
+export const DEFAULT_PERFORMANCE: PerformanceSettings = {
+  quality: 'auto',
+  frameBudget: DEFAULT_FRAME_BUDGET,
+  showHud: false,
+};
+
+export const MIN_FRAME_BUDGET = 8;
+export const MAX_FRAME_BUDGET = 100;
+
+const sanitizePerformance = (value: unknown): PerformanceSettings => {
+  const raw = isRecord(value) ? value : {};
+  return {
+    quality: QUALITY_MODES.find(mode => mode === raw.quality) ?? DEFAULT_PERFORMANCE.quality,
+    frameBudget: Number.isFinite(raw.frameBudget)
+      ? Math.min(MAX_FRAME_BUDGET, Math.max(MIN_FRAME_BUDGET, raw.frameBudget as number))
+      : DEFAULT_PERFORMANCE.frameBudget,
+    showHud: typeof raw.showHud === 'boolean' ? raw.showHud : DEFAULT_PERFORMANCE.showHud,
+  };
+};
+
+// --- Local Storage ---
+const STORAGE_KEY = 'starsilk.performance';
+
+export const loadPerformance = (): PerformanceSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizePerformance(JSON.parse(stored)) : { ...DEFAULT_PERFORMANCE };
+  } catch {
+    return { ...DEFAULT_PERFORMANCE };
+  }
+};
+
+export const storePerformance = (settings: PerformanceSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,75 @@
+import { isRecord } from './config';
+import { BUILT_IN_PRESETS, type PresetDocument } from './presets';
+
+// --- Playlist ---
+// Ambient mode cycles through presets, referenced by name so that re-saving a
+// preset updates the playlist too. Entries whose preset no longer exists are skipped.
+
+export const PLAYLIST_ORDERS = ['sequence', 'shuffle'] as const;
+
+export type PlaylistOrder = typeof PLAYLIST_ORDERS[number];
+
+export interface PlaylistEntry {
+  preset: string;
+  dwell: number; // seconds on screen, including the crossfade into it
+}
+
+export interface Playlist {
+  entries: PlaylistEntry[];
+  order: PlaylistOrder;
+  crossfade: number; // ms
+}
+
+export const DEFAULT_PLAYLIST: Playlist = {
+  entries: BUILT_IN_PRESETS.slice(0, 4).map(preset => ({ preset: preset.name, dwell: 60 })),
+  order: 'sequence',
+  crossfade: 4000,
+};
+
+export const MIN_DWELL = 5;
+export const MAX_CROSSFADE = 15000; // ms
+
+// The crossfade is part of every entry's dwell, so it can last no longer than the shortest one
+export const maxCrossfade = (entries: PlaylistEntry[]): number =>
+  Math.min(MAX_CROSSFADE, ...entries.map(entry => entry.dwell * 1000));
+
+// Saved presets shadow built-ins of the same name, as in the preset menu
+export const findPlaylistPreset = (name: string, savedPresets: PresetDocument[]): PresetDocument | undefined =>
+  savedPresets.find(p => p.name === name) ?? BUILT_IN_PRESETS.find(p => p.name === name);
+
+// Shuffle never repeats the entry that is already on screen
+export const nextPlaylistIndex = (playlist: Playlist, current: number, random: () => number = Math.random): number => {
+  const count = playlist.entries.length;
+  if (count <= 1) return 0;
+  if (playlist.order === 'sequence') return (current + 1) % count;
+  return (current + 1 + Math.floor(random() * (count - 1))) % count;
+};
+
+const sanitizePlaylist = (value: unknown): Playlist => {
+  const raw = isRecord(value) ? value : {};
+  const entries = (Array.isArray(raw.entries) ? raw.entries : []).filter(isRecord).flatMap(entry =>
+    typeof entry.preset === 'string'
+      ? [{ preset: entry.preset, dwell: Number.isFinite(entry.dwell) ? Math.max(MIN_DWELL, entry.dwell as number) : 60 }]
+      : []);
+  return {
+    entries,
+    order: PLAYLIST_ORDERS.find(order => order === raw.order) ?? DEFAULT_PLAYLIST.order,
+    crossfade: Math.min(maxCrossfade(entries), Number.isFinite(raw.crossfade) ? Math.max(0, raw.crossfade as number) : DEFAULT_PLAYLIST.crossfade),
+  };
+};
+
+// --- Local Storage ---
+const STORAGE_KEY = 'starsilk.playlist';
+
+export const loadPlaylist = (): Playlist => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizePlaylist(JSON.parse(stored)) : structuredClone(DEFAULT_PLAYLIST);
+  } catch {
+    return structuredClone(DEFAULT_PLAYLIST);
+  }
+};
+
+export const storePlaylist = (playlist: Playlist) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(playlist));
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from './config';
+import { PRESET_VERSION, createPreset, parsePreset } from './presets';
+
+// A version 1 document, from before effects could be combined
+const v1Preset = (effectMode: string) => {
+  const config: Record<string, unknown> = { ...DEFAULT_CONFIG, effectMode };
+  delete config.effects;
+  return { version: 1, name: 'Old', config };
+};
+
+describe('parsePreset', () => {
+  it('reads a current preset unchanged', () => {
+    const preset = createPreset('Current', { ...DEFAULT_CONFIG, numStreams: 7 });
+    expect(parsePreset(JSON.parse(JSON.stringify(preset)))).toEqual(preset);
+  });
+
+  it('upgrades a v1 vortex preset to the vortex effect alone', () => {
+    const preset = parsePreset(v1Preset('vortex'));
+    expect(preset.version).toBe(PRESET_VERSION);
+    expect(preset.config.effects).toEqual([{ id: 'vortex', strength: 100 }]);
+    expect(preset.config).not.toHaveProperty('effectMode');
+  });
+
+  it('keeps the pointer repulsion when upgrading other v1 modes', () => {
+    expect(parsePreset(v1Preset('gravity')).config.effects).toEqual([
+      { id: 'repulsion', strength: 100 },
+      { id: 'gravity', strength: 100 },
+    ]);
+    expect(parsePreset(v1Preset('default')).config.effects).toEqual([{ id: 'repulsion', strength: 100 }]);
+  });
+
+  it('rejects documents it cannot read', () => {
+    expect(() => parsePreset(null)).toThrow('not an object');
+    expect(() => parsePreset({ name: 'x', config: {} })).toThrow('no valid version');
+    expect(() => parsePreset({ version: PRESET_VERSION + 1, config: {} })).toThrow('newer than supported');
+    expect(() => parsePreset({ version: PRESET_VERSION })).toThrow('no config');
+  });
+
+  it('falls back to a name and default settings', () => {
+    const preset = parsePreset({ version: PRESET_VERSION, name: '  ', config: {} });
+    expect(preset.name).toBe('Untitled');
+    expect(preset.config).toEqual(DEFAULT_CONFIG);
+  });
+});
@@ -0,0 +1,133 @@
+import { DEFAULT_CONFIG, DEFAULT_TERMINUS, MAX_STREAMS, defaultStreamPath, sanitizeConfig, type Config, type EffectSetting, type PathPoint } from './config';
+import { downloadBlob } from './exporter';
+
+// --- Preset Documents ---
+// A preset is a named, versioned snapshot of the full Config. Adding a Config
+// field does not need a new version (sanitizeConfig fills in defaults); only
+// renamed or reinterpreted fields do, together with a migration below.
+
+export const PRESET_VERSION = 2;
+
+export interface PresetDocument {
+  version: number;
+  name: string;
+  config: Config;
+}
+
+type Migration = (config: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a version n document to version n + 1
+const migrations: Record<number, Migration> = {
+  // v1 had a single effectMode; every mode but the vortex kept the pointer repulsion.
+  // Timeline tracks switching effectMode have no counterpart and are dropped.
+  1: ({ effectMode, ...config }) => ({
+    ...config,
+    effects: effectMode === 'vortex'
+      ? [{ id: 'vortex', strength: 100 }]
+      : [{ id: 'repulsion', strength: 100 }, ...(typeof effectMode === 'string' && effectMode !== 'default' ? [{ id: effectMode, strength: 100 }] : [])],
+  }),
+};
+
+export const createPreset = (name: string, config: Config): PresetDocument => ({
+  version: PRESET_VERSION,
+  name,
+  config: structuredClone(config),
+});
+
+// Validates an untrusted document (file import, localStorage) and upgrades it
+// to the current version. Throws when it cannot be read as a preset at all.
+export const parsePreset = (value: unknown): PresetDocument => {
+  if (typeof value !== 'object' || value === null) throw new Error('Preset is not an object');
+  const doc = value as Record<string, unknown>;
+
+  let version = doc.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Preset has no valid version');
+  }
+  if (version > PRESET_VERSION) {
+    throw new Error(`Preset version ${version} is newer than supported version ${PRESET_VERSION}`);
+  }
+  if (typeof doc.config !== 'object' || doc.config === null) throw new Error('Preset has no config');
+
+  let config = doc.config as Record<string, unknown>;
+  while (version < PRESET_VERSION) {
+    config = migrations[version](config);
+    version++;
+  }
+
+  return {
+    version,
+    name: typeof doc.name === 'string' && doc.name.trim() ? doc.name.trim() : 'Untitled',
+    config: sanitizeConfig(config),
+  };
+};
+
+export const serializePreset = (preset: PresetDocument): string => JSON.stringify(preset, null, 2);
+
+// --- Local Storage ---
+const STORAGE_KEY = 'starsilk.presets';
+
+export const loadSavedPresets = (): PresetDocument[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(entry => {
+      try {
+        return [parsePreset(entry)];
+      } catch (err) {
+        console.error(`Skipping unreadable stored preset: ${(err as Error).message}`);
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const storePresets = (presets: PresetDocument[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+// --- Files ---
+export const exportPresetFile = (preset: PresetDocument) => {
+  const blob = new Blob([serializePreset(preset)], { type: 'application/json' });
+  downloadBlob(blob, `${preset.name.replace(/[^\w-]+/g, '_') || 'preset'}.starsilk.json`);
+};
+
+export const importPresetFile = async (file: File): Promise<PresetDocument> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  return parsePreset(json);
+};
+
+// --- Built-in Presets ---
+const builtIn = (name: string, overrides: Partial<Config>): PresetDocument =>
+  createPreset(name, { ...DEFAULT_CONFIG, ...overrides });
+
+// The pointer repulsion plus the named effects at full strength
+const withRepulsion = (...ids: string[]): EffectSetting[] =>
+  ['repulsion', ...ids].map(id => ({ id, strength: 100 }));
+
+// Drawn paths for the custom layout: the first `count` streams wave across the
+// view a quarter turn apart, so they braid over and under each other
+const braidPaths = (count: number): PathPoint[][] =>
+  Array.from({ length: MAX_STREAMS }, (_, stream) => stream >= count ? defaultStreamPath(stream) :
+    Array.from({ length: 7 }, (_, k) => ({ x: -10 + k * 20, y: 50 + 20 * Math.sin((k + stream * (4 / count)) * Math.PI / 2) })));
+
+export const BUILT_IN_PRESETS: PresetDocument[] = [
+  builtIn('Drift · Calm Threads', { layoutMode: 'default', numStreams: 3 }),
+  builtIn('Drift · Data Storm', { layoutMode: 'default', numStreams: 9, effects: withRepulsion('surges'), silkSpeed: 120, variableSpeed: true }),
+  builtIn('Tree · Souls Rising', { layoutMode: 'tree', numStreams: 7, effects: withRepulsion('particles'), silkSpeed: 40 }),
+  builtIn('Tree · Ancient Canopy', { layoutMode: 'tree', numStreams: 12, silkLuminosity: 160, starDensity: 80, enableSun: false }),
+  builtIn('Convergence · Event Horizon', { layoutMode: 'convergence', numStreams: 8, effects: withRepulsion('gravity'), silkLuminosity: 140, terminusObjects: [{ ...DEFAULT_TERMINUS, type: 'blackHole', radius: 30, glow: 150 }] }),
+  builtIn('Convergence · Pulse Core', { layoutMode: 'convergence', numStreams: 12, effects: withRepulsion('surges'), audioReactive: true, terminusObjects: [{ ...DEFAULT_TERMINUS, type: 'pulsar', radius: 25 }] }),
+  builtIn('DNA · Slow Helix', { layoutMode: 'dna', numStreams: 2, silkSpeed: 30 }),
+  builtIn('DNA · Quad Strand', { layoutMode: 'dna', numStreams: 4, effects: [{ id: 'vortex', strength: 100 }], silkLuminosity: 180 }),
+  builtIn('River · Styx at Dusk', { layoutMode: 'river', numStreams: 6, starLuminosity: 30, enableSun: false }),
+  builtIn('River · Flood', { layoutMode: 'river', numStreams: 12, silkSpeed: 90, variableSpeed: true, effects: withRepulsion('particles') }),
+  builtIn('Custom · Braid', { layoutMode: 'custom', numStreams: 4, streamPaths: braidPaths(4), silkLuminosity: 130 }),
+];
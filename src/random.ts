@@ -0,0 +1,31 @@
+// --- Seeded Randomness ---
+// Every random decision in the simulation draws from a Random created from
+// Config.seed, so the same seed, config and input replay the same frames.
+
+export type Random = () => number;
+
+// Fresh seed for new scenes; the only place Math.random() is allowed
+export const randomSeed = (): number => Math.floor(Math.random() * 2 ** 32);
+
+// mulberry32: tiny, fast and plenty for visuals
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Independent sub-sequences per subsystem, so regenerating the stars on resize
+// never shifts what the silk draws next
+export const deriveSeed = (seed: number, salt: string): number => {
+  let hash = seed >>> 0;
+  for (let i = 0; i < salt.length; i++) {
+    hash = Math.imul(hash ^ salt.charCodeAt(i), 0x9E3779B1);
+    hash ^= hash >>> 15;
+  }
+  return hash >>> 0;
+};
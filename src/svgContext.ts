@@ -0,0 +1,147 @@
+import type { DrawContext } from './engine';
+
+// --- SVG Backend ---
+// Records draw calls as SVG elements. Additive 'lighter' compositing has no
+// exact SVG equivalent, so it is approximated with mix-blend-mode: screen.
+
+interface SvgPaint {
+  color: string;
+  opacity: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Splits CSS colors into an SVG paint plus opacity, which vector tools handle
+// far more reliably than rgba() inside fill/stroke attributes
+const parseColor = (css: string): SvgPaint => {
+  const rgba = css.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgba) {
+    const [, r, g, b, a] = rgba;
+    return { color: `rgb(${r}, ${g}, ${b})`, opacity: a === undefined ? 1 : parseFloat(a) };
+  }
+  return { color: css, opacity: 1 };
+};
+
+class SvgGradient implements CanvasGradient {
+  readonly id: string;
+  private x0: number;
+  private y0: number;
+  private r0: number;
+  private x1: number;
+  private y1: number;
+  private r1: number;
+  private stops: string[] = [];
+
+  constructor(id: string, x0: number, y0: number, r0: number, x1: number, y1: number, r1: number) {
+    this.id = id;
+    this.x0 = x0;
+    this.y0 = y0;
+    this.r0 = r0;
+    this.x1 = x1;
+    this.y1 = y1;
+    this.r1 = r1;
+  }
+
+  addColorStop(offset: number, color: string) {
+    const paint = parseColor(color);
+    this.stops.push(`<stop offset="${round(offset)}" stop-color="${paint.color}" stop-opacity="${round(paint.opacity)}"/>`);
+  }
+
+  toString(): string {
+    return `<radialGradient id="${this.id}" gradientUnits="userSpaceOnUse" cx="${round(this.x1)}" cy="${round(this.y1)}" r="${round(this.r1)}" fx="${round(this.x0)}" fy="${round(this.y0)}" fr="${round(this.r0)}">${this.stops.join('')}</radialGradient>`;
+  }
+}
+
+export class SvgContext implements DrawContext {
+  globalCompositeOperation: GlobalCompositeOperation = 'source-over';
+  globalAlpha = 1;
+  fillStyle: string | CanvasGradient | CanvasPattern = '#000';
+  strokeStyle: string | CanvasGradient | CanvasPattern = '#000';
+  lineWidth = 1;
+
+  private width: number;
+  private height: number;
+  private path: string[] = [];
+  private elements: string[] = [];
+  private gradients: SvgGradient[] = [];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  beginPath() {
+    this.path = [];
+  }
+
+  moveTo(x: number, y: number) {
+    this.path.push(`M${round(x)} ${round(y)}`);
+  }
+
+  lineTo(x: number, y: number) {
+    this.path.push(`L${round(x)} ${round(y)}`);
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    const r = round(radius);
+    const point = (angle: number) => `${round(x + Math.cos(angle) * radius)} ${round(y + Math.sin(angle) * radius)}`;
+    const sweep = counterclockwise ? 0 : 1;
+    const span = Math.abs(endAngle - startAngle);
+
+    this.path.push(`${this.path.length === 0 ? 'M' : 'L'}${point(startAngle)}`);
+    if (span >= Math.PI * 2) {
+      // A single SVG arc cannot close on itself, so full circles take two halves
+      const half = startAngle + (counterclockwise ? -Math.PI : Math.PI);
+      this.path.push(`A${r} ${r} 0 1 ${sweep} ${point(half)}`, `A${r} ${r} 0 1 ${sweep} ${point(startAngle)}`);
+    } else {
+      this.path.push(`A${r} ${r} 0 ${span > Math.PI ? 1 : 0} ${sweep} ${point(endAngle)}`);
+    }
+  }
+
+  createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient {
+    const gradient = new SvgGradient(`g${this.gradients.length}`, x0, y0, r0, x1, y1, r1);
+    this.gradients.push(gradient);
+    return gradient;
+  }
+
+  private paint(style: string | CanvasGradient | CanvasPattern): SvgPaint {
+    if (style instanceof SvgGradient) return { color: `url(#${style.id})`, opacity: this.globalAlpha };
+    if (typeof style === 'string') {
+      const paint = parseColor(style);
+      return { color: paint.color, opacity: paint.opacity * this.globalAlpha };
+    }
+    return { color: 'none', opacity: 0 }; // patterns are never used by the draw pass
+  }
+
+  private blendClass(): string {
+    return this.globalCompositeOperation === 'lighter' ? ' class="add"' : '';
+  }
+
+  fillRect(x: number, y: number, w: number, h: number) {
+    const { color, opacity } = this.paint(this.fillStyle);
+    if (opacity <= 0) return;
+    this.elements.push(`<rect x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}" fill="${color}" fill-opacity="${round(opacity)}"${this.blendClass()}/>`);
+  }
+
+  stroke() {
+    const { color, opacity } = this.paint(this.strokeStyle);
+    if (opacity <= 0 || this.path.length === 0) return;
+    this.elements.push(`<path d="${this.path.join('')}" fill="none" stroke="${color}" stroke-opacity="${round(opacity)}" stroke-width="${round(this.lineWidth)}"${this.blendClass()}/>`);
+  }
+
+  fill() {
+    const { color, opacity } = this.paint(this.fillStyle);
+    if (opacity <= 0 || this.path.length === 0) return;
+    this.elements.push(`<path d="${this.path.join('')}Z" fill="${color}" fill-opacity="${round(opacity)}"${this.blendClass()}/>`);
+  }
+
+  toString(): string {
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${round(this.width)}" height="${round(this.height)}" viewBox="0 0 ${round(this.width)} ${round(this.height)}">`,
+      '<style>.add{mix-blend-mode:screen}</style>',
+      `<defs>${this.gradients.join('')}</defs>`,
+      ...this.elements,
+      '</svg>',
+    ].join('\n');
+  }
+}
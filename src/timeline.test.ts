@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, MAX_STREAMS, type Config } from './config';
+import { applyTimeline } from './timeline';
+
+const withStreamKeys = (...values: number[]): Config => ({
+  ...DEFAULT_CONFIG,
+  timeline: {
+    enabled: true,
+    loop: false,
+    duration: values.length,
+    tracks: [{ kind: 'numeric', target: 'numStreams', keys: values.map((value, time) => ({ time, value, easing: 'linear' })) }],
+  },
+});
+
+describe('applyTimeline', () => {
+  it('rounds the stream count between keys', () => {
+    expect(applyTimeline(withStreamKeys(2, 5), 0.6).numStreams).toBe(4);
+  });
+
+  it('keeps keyed stream counts within the streams Config holds', () => {
+    const config = withStreamKeys(0, MAX_STREAMS + 10);
+    expect(applyTimeline(config, 0).numStreams).toBe(1);
+    expect(applyTimeline(config, 1).numStreams).toBe(MAX_STREAMS);
+  });
+});
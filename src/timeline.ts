@@ -0,0 +1,148 @@
+import { MAX_STREAMS, type Config, type EffectSetting, type StreamConfig } from './config';
+import { ease, type EasingMode } from './engine/easing';
+import { getEffect, isEffectId } from './engine/effects';
+
+// --- Timeline ---
+// Automates Config over simulated time. Numeric fields follow keyframes with an
+// easing per segment; discrete fields switch at cue points. The timeline is part
+// of the Config it automates, so it is saved and shared with the scene.
+
+export const NUMERIC_TARGETS = [
+  'numStreams', 'startX', 'startY', 'endX', 'endY',
+  'silkLuminosity', 'silkSpeed', 'timeScale', 'hueCycle', 'transitionDuration',
+  'starDensity', 'starLuminosity', 'starFlickerSpeed', 'starParallax', 'cameraDrift', 'shootingStars',
+  'audioDrift', 'audioWidth', 'audioLuminosity',
+] as const satisfies readonly (keyof Config)[];
+
+export const DISCRETE_TARGETS = ['layoutMode', 'paletteMode', 'palette'] as const satisfies readonly (keyof Config)[];
+
+export const STREAM_TARGET_KEYS = ['speed', 'width', 'luminosity'] as const satisfies readonly (keyof StreamConfig)[];
+
+export type NumericTarget = typeof NUMERIC_TARGETS[number];
+export type DiscreteTarget = typeof DISCRETE_TARGETS[number];
+
+
+export interface Keyframe {
+  time: number; // seconds
+  value: number;
+  easing: EasingMode; // curve of the segment that arrives at this key
+}
+
+export interface Cue {
+  time: number; // seconds
+  value: string;
+}
+
+// Numeric targets are Config keys, per-stream fields written as `stream.<index>.<key>`
+// or effect strengths written as `effect.<id>`
+export type TimelineTrack =
+  | { kind: 'numeric'; target: string; keys: Keyframe[] }
+  | { kind: 'discrete'; target: DiscreteTarget; cues: Cue[] };
+
+export interface Timeline {
+  enabled: boolean;
+  loop: boolean;
+  duration: number; // seconds
+  tracks: TimelineTrack[];
+}
+
+export const DEFAULT_TIMELINE: Timeline = { enabled: false, loop: true, duration: 60, tracks: [] };
+
+const STREAM_TARGET = /^stream\.(\d+)\.(speed|width|luminosity)$/;
+const EFFECT_TARGET = /^effect\.(.+)$/;
+
+export const streamTarget = (index: number, key: keyof StreamConfig) => `stream.${index}.${key}`;
+
+export const effectTarget = (id: string) => `effect.${id}`;
+
+// The stream count is a whole number of the streams Config keeps settings for;
+// other targets take any keyed value
+export const clampKeyValue = (target: string, value: number): number =>
+  target === 'numStreams' ? Math.min(MAX_STREAMS, Math.max(1, Math.round(value))) : value;
+
+export const isNumericTarget = (target: string): boolean =>
+  (NUMERIC_TARGETS as readonly string[]).includes(target) || STREAM_TARGET.test(target) || isEffectId(target.match(EFFECT_TARGET)?.[1]);
+
+// Effects missing from the scene read as 0%
+export const readNumericTarget = (config: Config, target: string): number => {
+  const stream = target.match(STREAM_TARGET);
+  if (stream) return config.streamConfigs[Number(stream[1])]?.[stream[2] as keyof StreamConfig] ?? 0;
+  const effect = target.match(EFFECT_TARGET);
+  if (effect) return config.effects.find(setting => setting.id === effect[1])?.strength ?? 0;
+  return config[target as NumericTarget];
+};
+
+const sampleKeys = (keys: Keyframe[], time: number): number => {
+  if (time <= keys[0].time) return keys[0].value;
+  for (let i = 1; i < keys.length; i++) {
+    const to = keys[i];
+    if (time < to.time) {
+      const from = keys[i - 1];
+      const t = (time - from.time) / (to.time - from.time);
+      return from.value + (to.value - from.value) * ease(to.easing, t);
+    }
+  }
+  return keys[keys.length - 1].value;
+};
+
+// Position on the timeline after looping or holding at the end
+export const timelinePosition = (timeline: Timeline, seconds: number): number =>
+  timeline.loop && timeline.duration > 0 ? seconds % timeline.duration : Math.min(seconds, timeline.duration);
+
+// Returns the Config as automated at `seconds` of simulated time. Tracks are
+// kept sorted by time (see sanitizeConfig), and untouched fields are shared with the input.
+export const applyTimeline = (config: Config, seconds: number): Config => {
+  const { timeline } = config;
+  if (!timeline.enabled || timeline.tracks.length === 0) return config;
+
+  const time = timelinePosition(timeline, seconds);
+  const result: Record<string, unknown> = { ...config };
+  let streamConfigs: StreamConfig[] | null = null;
+  let effects: EffectSetting[] | null = null;
+
+  timeline.tracks.forEach(track => {
+    if (track.kind === 'discrete') {
+      let value: string | null = null;
+      for (const cue of track.cues) {
+        if (cue.time > time) break;
+        value = cue.value;
+      }
+      if (value !== null) result[track.target] = value;
+      return;
+    }
+
+    if (track.keys.length === 0) return;
+    const value = clampKeyValue(track.target, sampleKeys(track.keys, time));
+
+    const stream = track.target.match(STREAM_TARGET);
+    const effect = track.target.match(EFFECT_TARGET);
+    if (stream) {
+      streamConfigs ??= config.streamConfigs.map(s => ({ ...s }));
+      const entry = streamConfigs[Number(stream[1])];
+      if (entry) entry[stream[2] as keyof StreamConfig] = value;
+    } else if (effect) {
+      // An automated effect joins the scene even if the user has not added it
+      effects ??= config.effects.map(e => ({ ...e }));
+      const entry = effects.find(e => e.id === effect[1]);
+      if (entry) entry.strength = Math.max(0, value);
+      else effects.push({ id: effect[1], strength: Math.max(0, value) });
+    } else {
+      result[track.target] = value;
+    }
+  });
+
+  if (streamConfigs) result.streamConfigs = streamConfigs;
+  if (effects) result.effects = effects;
+  return result as unknown as Config;
+};
+
+// 'silkLuminosity' → 'Silk Luminosity', 'stream.2.speed' → 'Stream #3 Speed',
+// 'effect.vortex' → 'Interactive Vortex Strength'
+export const timelineTargetLabel = (target: string): string => {
+  const words = (text: string) => text.replace(/([A-Z])/g, ' $1').replace(/^./, char => char.toUpperCase());
+  const stream = target.match(STREAM_TARGET);
+  if (stream) return `Stream #${Number(stream[1]) + 1} ${words(stream[2])}`;
+  const effect = target.match(EFFECT_TARGET);
+  if (effect) return `${getEffect(effect[1])?.label ?? words(effect[1])} Strength`;
+  return words(target);
+};